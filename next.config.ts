@@ -4,6 +4,11 @@ const nextConfig: NextConfig = {
   // Performance optimizations
   compress: true,
   poweredByHeader: false,
+
+  // Stamped on error reports; `npm run build` provides the package version
+  env: {
+    NEXT_PUBLIC_APP_VERSION: process.env.NEXT_PUBLIC_APP_VERSION || process.env.npm_package_version || '',
+  },
   
   // Experimental features for better performance
   experimental: {
@@ -0,0 +1,168 @@
+/**
+ * Generates src/lib/api-contract.ts from contract/openapi.json.
+ *
+ *   node scripts/generate-api-types.mjs          write the file
+ *   node scripts/generate-api-types.mjs --check  fail if the file is out of date
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, relative, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const CONTRACT = resolve(root, 'contract/openapi.json')
+const OUTPUT = resolve(root, 'src/lib/api-contract.ts')
+const METHODS = ['get', 'post', 'put', 'patch', 'delete']
+
+const contract = JSON.parse(readFileSync(CONTRACT, 'utf8'))
+const schemas = contract.components?.schemas ?? {}
+
+const refName = ref => ref.replace('#/components/schemas/', '')
+const isIdentifier = key => /^[A-Za-z_$][\w$]*$/.test(key)
+const pad = indent => '  '.repeat(indent)
+// ConsultantType -> CONSULTANT_TYPE_VALUES
+const valuesName = name => `${name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}_VALUES`
+
+function typeOf(schema, indent) {
+  if (schema.$ref) {
+    if (!schemas[refName(schema.$ref)]) throw new Error(`Unknown schema reference ${schema.$ref}`)
+    return refName(schema.$ref)
+  }
+  if (schema.enum) return schema.enum.map(value => `'${value}'`).join(' | ')
+
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string'
+    case 'integer':
+    case 'number':
+      return 'number'
+    case 'boolean':
+      return 'boolean'
+    case 'array': {
+      const item = typeOf(schema.items, indent)
+      return item.includes(' | ') ? `Array<${item}>` : `${item}[]`
+    }
+    case 'object':
+      return objectType(schema, indent)
+    default:
+      return 'unknown'
+  }
+}
+
+function objectType(schema, indent) {
+  const properties = Object.entries(schema.properties ?? {})
+  if (!properties.length) {
+    const extra = schema.additionalProperties
+    return `Record<string, ${extra && extra !== true ? typeOf(extra, indent) : 'unknown'}>`
+  }
+
+  const required = new Set(schema.required ?? [])
+  const lines = properties.map(([key, property]) => {
+    const name = isIdentifier(key) ? key : `'${key}'`
+    const optional = required.has(key) ? '' : '?'
+    const comment = property.description ? ` // ${property.description}` : ''
+    return `${pad(indent + 1)}${name}${optional}: ${typeOf(property, indent + 1)}${comment}`
+  })
+  return `{\n${lines.join('\n')}\n${pad(indent)}}`
+}
+
+function emitSchema(name, schema) {
+  const doc = schema.description ? `// ${schema.description}\n` : ''
+  if (schema.enum) {
+    const values = valuesName(name)
+    const items = schema.enum.map(value => `  '${value}',`).join('\n')
+    return `${doc}export const ${values} = [\n${items}\n] as const\nexport type ${name} = (typeof ${values})[number]`
+  }
+  if (schema.type === 'object' && schema.properties) {
+    return `${doc}export interface ${name} ${objectType(schema, 0)}`
+  }
+  return `${doc}export type ${name} = ${typeOf(schema, 0)}`
+}
+
+function parametersType(parameters, indent) {
+  if (!parameters.length) return 'never'
+  return objectType({
+    properties: Object.fromEntries(
+      parameters.map(parameter => [parameter.name, { ...parameter.schema, description: parameter.description }])
+    ),
+    required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+  }, indent)
+}
+
+function bodyType(requestBody, indent) {
+  const content = requestBody?.content
+  if (!content) return 'never'
+  if (content['application/json']) return typeOf(content['application/json'].schema, indent)
+  if (content['multipart/form-data']) return 'FormData'
+  return 'Blob'
+}
+
+function responseType(responses, indent) {
+  const success = responses['200'] ?? responses['201']
+  const [contentType, media] = Object.entries(success?.content ?? {})[0] ?? []
+  if (!media) return 'undefined'
+  return contentType === 'application/json' ? typeOf(media.schema, indent) : 'Blob'
+}
+
+function emitOperation(method, path, operation) {
+  const parameters = operation.parameters ?? []
+  const lines = [
+    `operationId: '${operation.operationId}'`,
+    `path: ${parametersType(parameters.filter(parameter => parameter.in === 'path'), 2)}`,
+    `query: ${parametersType(parameters.filter(parameter => parameter.in === 'query'), 2)}`,
+    `body: ${bodyType(operation.requestBody, 2)}`,
+    `response: ${responseType(operation.responses, 2)}`,
+  ]
+  const doc = operation.summary ? `${pad(1)}// ${operation.summary}\n` : ''
+  return `${doc}${pad(1)}'${method.toUpperCase()} ${path}': {\n${lines.map(line => `${pad(2)}${line}`).join('\n')}\n${pad(1)}}`
+}
+
+function generate() {
+  const operations = []
+  const operationIds = new Set()
+  for (const [path, item] of Object.entries(contract.paths)) {
+    for (const method of METHODS) {
+      const operation = item[method]
+      if (!operation) continue
+      if (operationIds.has(operation.operationId)) {
+        throw new Error(`Duplicate operationId ${operation.operationId}`)
+      }
+      operationIds.add(operation.operationId)
+      operations.push(emitOperation(method, path, operation))
+    }
+  }
+
+  return [
+    `// Generated by scripts/generate-api-types.mjs from contract/openapi.json - do not edit.`,
+    `// Change the contract and run \`npm run api:generate\` instead.`,
+    '',
+    `// ${contract.info.title} ${contract.info.version}`,
+    '',
+    Object.entries(schemas).map(([name, schema]) => emitSchema(name, schema)).join('\n\n'),
+    '',
+    `// Every endpoint, keyed by 'METHOD /path'. \`response\` is the \`data\` of a successful response.`,
+    `export interface ApiOperations {\n${operations.join('\n\n')}\n}`,
+    '',
+    'export type OperationKey = keyof ApiOperations',
+    `export type OperationPath<K extends OperationKey> = ApiOperations[K]['path']`,
+    `export type OperationQuery<K extends OperationKey> = ApiOperations[K]['query']`,
+    `export type OperationBody<K extends OperationKey> = ApiOperations[K]['body']`,
+    `export type OperationResponse<K extends OperationKey> = ApiOperations[K]['response']`,
+    '',
+  ].join('\n')
+}
+
+const output = generate()
+const target = relative(root, OUTPUT)
+
+if (process.argv.includes('--check')) {
+  const current = existsSync(OUTPUT) ? readFileSync(OUTPUT, 'utf8') : ''
+  if (current !== output) {
+    console.error(`${target} is out of date with contract/openapi.json. Run \`npm run api:generate\`.`)
+    process.exit(1)
+  }
+  console.log(`${target} matches the contract`)
+} else {
+  writeFileSync(OUTPUT, output)
+  console.log(`Wrote ${target}`)
+}
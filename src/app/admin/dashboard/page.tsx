@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useRef } from "react";
+import { toast } from "sonner";
 import {
   Card,
   CardContent,
@@ -19,14 +20,28 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   apiClient,
   BookingStatus,
   ConsultantType,
-  Booking,
-  Student,
+  type ApiResponse,
+  type DownloadOptions,
+  type DownloadProgress,
+  type FileDownload,
 } from "@/lib/api";
+import { saveDownload } from "@/lib/api-download";
+import { showError } from "@/lib/error-handler";
 import {
+  Database,
   Download,
   RefreshCw,
   Eye,
@@ -34,101 +49,184 @@ import {
   User,
   Calendar,
   DollarSign,
+  Trash2,
+  Upload,
 } from "lucide-react";
 import DashboardStats from "@/components/dashboard-stats";
+import { AdminPaymentsPanel } from "@/components/admin-payments-panel";
+import { AdminSettingsPanel } from "@/components/admin-settings-panel";
+import { ConfirmButton } from "@/components/confirm-button";
+import { PageControls } from "@/components/page-controls";
+import {
+  InsufficientPermissions,
+  MissingRoleNotice,
+  PermissionHint,
+} from "@/components/insufficient-permissions";
+import { useAdmin } from "@/contexts/admin-context";
+import { ADMIN_ROLE_LABELS } from "@/lib/admin-permissions";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { CACHE_TAGS } from "@/lib/cache";
+
+// Rows per page in the bookings and users lists
+const PAGE_SIZE = 10;
 
 export default function AdminDashboard() {
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [users, setUsers] = useState<Student[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { can, role } = useAdmin();
+  const canViewBookings = can("bookings:view");
+  const canUpdateBookings = can("bookings:update");
+  const canDeleteBookings = can("bookings:delete");
+  const canExport = can("bookings:export");
+  const canViewUsers = can("users:view");
+  const canUpdateUsers = can("users:update");
+  const canDeleteUsers = can("users:delete");
+  const canBackup = can("backup:download");
+  const canRestore = can("backup:restore");
   // const [error] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<BookingStatus | "all">(
     "all"
   );
   const [typeFilter, setTypeFilter] = useState<ConsultantType | "all">("all");
-  const [currentPage] = useState(1);
-  // const [totalPages] = useState(1)
-
-  const fetchData = useCallback(async () => {
-    try {
-      setLoading(true);
-      // setError(null)
+  const [currentPage, setCurrentPage] = useState(1);
+  const [usersPage, setUsersPage] = useState(1);
+  // null while idle
+  const [exportProgress, setExportProgress] = useState<DownloadProgress | null>(
+    null
+  );
+  const [backupProgress, setBackupProgress] = useState<DownloadProgress | null>(
+    null
+  );
+  // Backup file picked for restore, waiting for confirmation
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
 
-      // Fetch bookings
-      const bookingsResponse = await apiClient.getAdminBookings({
+  // Sections the role cannot see are never requested
+  const bookingsQuery = useApiQuery(
+    canViewBookings
+      ? `admin-bookings:${currentPage}:${statusFilter}:${typeFilter}`
+      : null,
+    () =>
+      apiClient.getAdminBookings({
         page: currentPage,
-        limit: 10,
+        limit: PAGE_SIZE,
         status: statusFilter !== "all" ? statusFilter : undefined,
         consultantType: typeFilter !== "all" ? typeFilter : undefined,
-      });
-
-      if (bookingsResponse.success && bookingsResponse.data) {
-        setBookings(bookingsResponse.data.bookings);
-        // setTotalPages(bookingsResponse.data.pagination?.totalPages || 1)
-      }
-
-      // Fetch users
-      const usersResponse = await apiClient.getAllUsers({
-        page: 1,
-        limit: 10,
-      });
-
-      if (usersResponse.success && usersResponse.data) {
-        setUsers(usersResponse.data.users);
-      }
-    } catch (err) {
-      console.error("Error fetching data:", err);
-      // setError('Failed to load data')
-    } finally {
-      setLoading(false);
+      }),
+    {
+      keepPreviousData: true,
+      tags: [CACHE_TAGS.BOOKINGS, CACHE_TAGS.ADMIN_BOOKINGS],
     }
-  }, [currentPage, statusFilter, typeFilter]);
+  );
+  const usersQuery = useApiQuery(
+    canViewUsers ? `admin-users:${usersPage}` : null,
+    () =>
+      apiClient.getAllUsers({
+        page: usersPage,
+        limit: PAGE_SIZE,
+      }),
+    { keepPreviousData: true, tags: [CACHE_TAGS.USERS] }
+  );
+  const bookings = useMemo(
+    () => bookingsQuery.data?.bookings || [],
+    [bookingsQuery.data]
+  );
+  const users = useMemo(() => usersQuery.data?.users || [], [usersQuery.data]);
+  const loading = bookingsQuery.isLoading || usersQuery.isLoading;
 
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  const refetchBookings = bookingsQuery.refetch;
+  const refetchUsers = usersQuery.refetch;
+  const fetchData = useCallback(
+    () => Promise.all([refetchBookings(), refetchUsers()]),
+    [refetchBookings, refetchUsers]
+  );
 
   const handleStatusUpdate = async (
     bookingId: number,
     newStatus: BookingStatus
   ) => {
+    // On success the bookings list and stats refetch through cache invalidation
+    const response = await apiClient.updateBookingStatus(bookingId, newStatus);
+    if (!response.success) {
+      showError(response, "Failed to update booking status");
+    }
+  };
+
+  const handleDeleteBooking = async (bookingId: number) => {
+    const response = await apiClient.deleteBooking(bookingId);
+    if (response.success) {
+      toast.success("Booking deleted");
+    } else {
+      showError(response, "Failed to delete booking");
+    }
+  };
+
+  const handleDeleteUser = async (userId: number) => {
+    const response = await apiClient.deleteUser(userId);
+    if (response.success) {
+      toast.success("User deleted");
+    } else {
+      showError(response, "Failed to delete user");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreFile) return;
+    setIsRestoring(true);
     try {
-      const response = await apiClient.updateBookingStatus(
-        bookingId,
-        newStatus
-      );
+      const response = await apiClient.restoreBackupData(restoreFile);
       if (response.success) {
-        // Refresh data
-        fetchData();
+        toast.success(response.data.message || "Backup restored");
+        setRestoreFile(null);
+      } else {
+        showError(response, "Failed to restore backup");
       }
-    } catch (err) {
-      console.error("Error updating status:", err);
+    } finally {
+      setIsRestoring(false);
     }
   };
 
-  const handleExport = async () => {
+  const runDownload = async (
+    download: (options: DownloadOptions) => Promise<ApiResponse<FileDownload>>,
+    setProgress: (progress: DownloadProgress | null) => void,
+    fallbackName: string,
+    errorMessage: string
+  ) => {
+    setProgress({ loaded: 0 });
     try {
-      const response = await apiClient.exportBookings();
-      if (response.success && response.data) {
-        // Create download link
-        const blob = new Blob([response.data], { type: "text/csv" });
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `bookings-export-${
-          new Date().toISOString().split("T")[0]
-        }.csv`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        window.URL.revokeObjectURL(url);
+      const response = await download({ onDownloadProgress: setProgress });
+      if (response.success) {
+        saveDownload(response.data, fallbackName);
+      } else {
+        showError(response, errorMessage);
       }
-    } catch (err) {
-      console.error("Error exporting data:", err);
+    } finally {
+      setProgress(null);
     }
   };
 
+  const today = () => new Date().toISOString().split("T")[0];
+
+  const handleExport = () =>
+    runDownload(
+      (options) => apiClient.exportBookings(options),
+      setExportProgress,
+      `bookings-export-${today()}.csv`,
+      "Failed to export bookings"
+    );
+
+  const handleBackup = () =>
+    runDownload(
+      (options) => apiClient.getBackupData(options),
+      setBackupProgress,
+      `carrierhub-backup-${today()}.json`,
+      "Failed to download backup"
+    );
+
+  // Percentage when the size is known, otherwise just that it is running
+  const progressLabel = (progress: DownloadProgress) =>
+    progress.percent !== undefined ? ` ${progress.percent}%` : "…";
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-IN", {
       style: "currency",
@@ -202,19 +300,69 @@ export default function AdminDashboard() {
           <p className="text-gray-600">
             Manage bookings, users, and system settings
           </p>
+          {role && (
+            <Badge variant="outline" className="mt-2">
+              {ADMIN_ROLE_LABELS[role]}
+            </Badge>
+          )}
         </div>
         <div className="flex space-x-2">
-          <Button onClick={fetchData} variant="outline" size="sm">
+          <Button onClick={() => fetchData()} variant="outline" size="sm">
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button onClick={handleExport} variant="outline" size="sm">
-            <Download className="h-4 w-4 mr-2" />
-            Export
-          </Button>
+          <PermissionHint allowed={canExport} action="export bookings">
+            <Button
+              onClick={handleExport}
+              variant="outline"
+              size="sm"
+              disabled={!canExport || exportProgress !== null}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exportProgress
+                ? `Exporting${progressLabel(exportProgress)}`
+                : "Export"}
+            </Button>
+          </PermissionHint>
+          <PermissionHint allowed={canBackup} action="download backups">
+            <Button
+              onClick={handleBackup}
+              variant="outline"
+              size="sm"
+              disabled={!canBackup || backupProgress !== null}
+            >
+              <Database className="h-4 w-4 mr-2" />
+              {backupProgress
+                ? `Downloading${progressLabel(backupProgress)}`
+                : "Backup"}
+            </Button>
+          </PermissionHint>
+          <PermissionHint allowed={canRestore} action="restore backups">
+            <Button
+              onClick={() => restoreInputRef.current?.click()}
+              variant="outline"
+              size="sm"
+              disabled={!canRestore || isRestoring}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {isRestoring ? "Restoring..." : "Restore"}
+            </Button>
+          </PermissionHint>
+          <input
+            ref={restoreInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              setRestoreFile(e.target.files?.[0] ?? null);
+              e.target.value = "";
+            }}
+          />
         </div>
       </div>
 
+      <MissingRoleNotice />
+
       {/* Dashboard Stats */}
       <DashboardStats />
 
@@ -223,252 +371,357 @@ export default function AdminDashboard() {
         <TabsList>
           <TabsTrigger value="bookings">Bookings</TabsTrigger>
           <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="payments">Payments</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
         {/* Bookings Tab */}
         <TabsContent value="bookings" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle>Bookings Management</CardTitle>
-                  <CardDescription>
-                    View and manage all booking requests
-                  </CardDescription>
-                </div>
-                <div className="flex space-x-2">
-                  <Input
-                    placeholder="Search bookings..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="w-64"
-                  />
-                  <Select
-                    value={statusFilter}
-                    onValueChange={(value) =>
-                      setStatusFilter(value as BookingStatus | "all")
-                    }
-                  >
-                    <SelectTrigger className="w-32">
-                      <SelectValue placeholder="Status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="PENDING">Pending</SelectItem>
-                      <SelectItem value="PROCESSING">Processing</SelectItem>
-                      <SelectItem value="SUCCESS">Success</SelectItem>
-                      <SelectItem value="FAILED">Failed</SelectItem>
-                      <SelectItem value="COMPLETED">Completed</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Select
-                    value={typeFilter}
-                    onValueChange={(value) =>
-                      setTypeFilter(value as ConsultantType | "all")
-                    }
-                  >
-                    <SelectTrigger className="w-40">
-                      <SelectValue placeholder="Type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Types</SelectItem>
-                      <SelectItem value="CAREER_GUIDANCE">
-                        Career Guidance
-                      </SelectItem>
-                      <SelectItem value="COLLEGE_COURSE">
-                        College Course
-                      </SelectItem>
-                      <SelectItem value="EXAM_PREPARATION">
-                        Exam Preparation
-                      </SelectItem>
-                      <SelectItem value="STUDY_ABROAD">Study Abroad</SelectItem>
-                      <SelectItem value="SKILL_MENTORSHIP">
-                        Skill Mentorship
-                      </SelectItem>
-                      <SelectItem value="JOB_PLACEMENT">
-                        Job Placement
-                      </SelectItem>
-                      <SelectItem value="GOVERNMENT_JOBS">
-                        Government Jobs
-                      </SelectItem>
-                      <SelectItem value="PERSONAL_GROWTH">
-                        Personal Growth
-                      </SelectItem>
-                      <SelectItem value="ALTERNATIVE_CAREERS">
-                        Alternative Careers
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {filteredBookings.length === 0 ? (
-                <div className="text-center py-8">
-                  <p className="text-gray-500">No bookings found</p>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  {filteredBookings.map((booking) => (
-                    <div
-                      key={booking.id}
-                      className="flex items-center justify-between p-4 border rounded-lg"
+          {!canViewBookings ? (
+            <InsufficientPermissions action="view bookings" />
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Bookings Management</CardTitle>
+                    <CardDescription>
+                      View and manage all booking requests
+                    </CardDescription>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Input
+                      placeholder="Search bookings..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="w-64"
+                    />
+                    <Select
+                      value={statusFilter}
+                      onValueChange={(value) => {
+                        setStatusFilter(value as BookingStatus | "all");
+                        setCurrentPage(1);
+                      }}
                     >
-                      <div className="flex items-center space-x-4">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-2 mb-1">
-                            <h4 className="font-semibold">
-                              {booking.student?.name || "Unknown Student"}
-                            </h4>
-                            {getStatusBadge(booking.status)}
+                      <SelectTrigger className="w-32">
+                        <SelectValue placeholder="Status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Status</SelectItem>
+                        <SelectItem value="PENDING">Pending</SelectItem>
+                        <SelectItem value="PROCESSING">Processing</SelectItem>
+                        <SelectItem value="SUCCESS">Success</SelectItem>
+                        <SelectItem value="FAILED">Failed</SelectItem>
+                        <SelectItem value="COMPLETED">Completed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={typeFilter}
+                      onValueChange={(value) => {
+                        setTypeFilter(value as ConsultantType | "all");
+                        setCurrentPage(1);
+                      }}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue placeholder="Type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Types</SelectItem>
+                        <SelectItem value="CAREER_GUIDANCE">
+                          Career Guidance
+                        </SelectItem>
+                        <SelectItem value="COLLEGE_COURSE">
+                          College Course
+                        </SelectItem>
+                        <SelectItem value="EXAM_PREPARATION">
+                          Exam Preparation
+                        </SelectItem>
+                        <SelectItem value="STUDY_ABROAD">Study Abroad</SelectItem>
+                        <SelectItem value="SKILL_MENTORSHIP">
+                          Skill Mentorship
+                        </SelectItem>
+                        <SelectItem value="JOB_PLACEMENT">
+                          Job Placement
+                        </SelectItem>
+                        <SelectItem value="GOVERNMENT_JOBS">
+                          Government Jobs
+                        </SelectItem>
+                        <SelectItem value="PERSONAL_GROWTH">
+                          Personal Growth
+                        </SelectItem>
+                        <SelectItem value="ALTERNATIVE_CAREERS">
+                          Alternative Careers
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {filteredBookings.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">No bookings found</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {filteredBookings.map((booking) => (
+                      <div
+                        key={booking.id}
+                        className="flex items-center justify-between p-4 border rounded-lg"
+                      >
+                        <div className="flex items-center space-x-4">
+                          <div className="flex-1">
+                            <div className="flex items-center space-x-2 mb-1">
+                              <h4 className="font-semibold">
+                                {booking.student?.name || "Unknown Student"}
+                              </h4>
+                              {getStatusBadge(booking.status)}
+                            </div>
+                            <p className="text-sm text-gray-600 mb-1">
+                              {getConsultantTypeLabel(booking.consultantType)}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {booking.student?.email} • {booking.student?.phone}
+                            </p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {new Date(booking.createdAt).toLocaleDateString()}{" "}
+                              at{" "}
+                              {new Date(booking.createdAt).toLocaleTimeString()}
+                            </p>
                           </div>
-                          <p className="text-sm text-gray-600 mb-1">
-                            {getConsultantTypeLabel(booking.consultantType)}
-                          </p>
-                          <p className="text-xs text-gray-500">
-                            {booking.student?.email} • {booking.student?.phone}
-                          </p>
-                          <p className="text-xs text-gray-500 mt-1">
-                            {new Date(booking.createdAt).toLocaleDateString()}{" "}
-                            at{" "}
-                            {new Date(booking.createdAt).toLocaleTimeString()}
-                          </p>
                         </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <div className="text-right mr-4">
-                          <div className="font-semibold">
-                            {formatCurrency(booking.amount)}
+                        <div className="flex items-center space-x-2">
+                          <div className="text-right mr-4">
+                            <div className="font-semibold">
+                              {formatCurrency(booking.amount)}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {booking.currency}
+                            </div>
                           </div>
-                          <div className="text-xs text-gray-500">
-                            {booking.currency}
+                          <div className="flex space-x-1">
+                            <Select
+                              value={booking.status}
+                              disabled={!canUpdateBookings}
+                              onValueChange={(value) =>
+                                handleStatusUpdate(
+                                  booking.id,
+                                  value as BookingStatus
+                                )
+                              }
+                            >
+                              <SelectTrigger className="w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="PENDING">Pending</SelectItem>
+                                <SelectItem value="PROCESSING">
+                                  Processing
+                                </SelectItem>
+                                <SelectItem value="SUCCESS">Success</SelectItem>
+                                <SelectItem value="FAILED">Failed</SelectItem>
+                                <SelectItem value="COMPLETED">
+                                  Completed
+                                </SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Button variant="outline" size="sm">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <PermissionHint
+                              allowed={canDeleteBookings}
+                              action="delete bookings"
+                            >
+                              <ConfirmButton
+                                variant="outline"
+                                size="sm"
+                                disabled={!canDeleteBookings}
+                                aria-label="Delete booking"
+                                title="Delete this booking?"
+                                description={`The booking by ${booking.student?.name || "this student"} is removed for good.`}
+                                confirmLabel="Delete"
+                                onConfirm={() => handleDeleteBooking(booking.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </ConfirmButton>
+                            </PermissionHint>
                           </div>
                         </div>
-                        <div className="flex space-x-1">
-                          <Select
-                            value={booking.status}
-                            onValueChange={(value) =>
-                              handleStatusUpdate(
-                                booking.id,
-                                value as BookingStatus
-                              )
-                            }
-                          >
-                            <SelectTrigger className="w-32">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="PENDING">Pending</SelectItem>
-                              <SelectItem value="PROCESSING">
-                                Processing
-                              </SelectItem>
-                              <SelectItem value="SUCCESS">Success</SelectItem>
-                              <SelectItem value="FAILED">Failed</SelectItem>
-                              <SelectItem value="COMPLETED">
-                                Completed
-                              </SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <Button variant="outline" size="sm">
-                            <Eye className="h-4 w-4" />
-                          </Button>
-                        </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                    ))}
+                  </div>
+                )}
+                <PageControls
+                  page={currentPage}
+                  pagination={bookingsQuery.data?.pagination}
+                  onPageChange={setCurrentPage}
+                />
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         {/* Users Tab */}
         <TabsContent value="users" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Users Management</CardTitle>
-              <CardDescription>
-                View and manage all registered users
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {filteredUsers.length === 0 ? (
-                <div className="text-center py-8">
-                  <p className="text-gray-500">No users found</p>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  {filteredUsers.map((user) => (
-                    <div
-                      key={user.id}
-                      className="flex items-center justify-between p-4 border rounded-lg"
-                    >
-                      <div className="flex items-center space-x-4">
-                        <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center">
-                          <User className="h-5 w-5 text-gray-600" />
-                        </div>
-                        <div className="flex-1">
-                          <h4 className="font-semibold">{user.name}</h4>
-                          <p className="text-sm text-gray-600">{user.email}</p>
-                          <p className="text-xs text-gray-500">{user.phone}</p>
-                          <p className="text-xs text-gray-500">
-                            Joined:{" "}
-                            {new Date(user.createdAt).toLocaleDateString()}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="flex space-x-2">
-                        <Button variant="outline" size="sm">
-                          <Eye className="h-4 w-4" />
-                        </Button>
-                        <Button variant="outline" size="sm">
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {/* Analytics Tab */}
-        <TabsContent value="analytics" className="space-y-4">
-          <div className="grid gap-4 md:grid-cols-2">
+          {!canViewUsers ? (
+            <InsufficientPermissions action="view users" />
+          ) : (
             <Card>
               <CardHeader>
-                <CardTitle>Revenue Analytics</CardTitle>
+                <CardTitle>Users Management</CardTitle>
                 <CardDescription>
-                  Track revenue trends and growth
+                  View and manage all registered users
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="text-center py-8">
-                  <DollarSign className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <p className="text-gray-500">Revenue analytics coming soon</p>
-                </div>
+                {filteredUsers.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">No users found</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {filteredUsers.map((user) => (
+                      <div
+                        key={user.id}
+                        className="flex items-center justify-between p-4 border rounded-lg"
+                      >
+                        <div className="flex items-center space-x-4">
+                          <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center">
+                            <User className="h-5 w-5 text-gray-600" />
+                          </div>
+                          <div className="flex-1">
+                            <h4 className="font-semibold">{user.name}</h4>
+                            <p className="text-sm text-gray-600">{user.email}</p>
+                            <p className="text-xs text-gray-500">{user.phone}</p>
+                            <p className="text-xs text-gray-500">
+                              Joined:{" "}
+                              {new Date(user.createdAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex space-x-2">
+                          <Button variant="outline" size="sm">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <PermissionHint
+                            allowed={canUpdateUsers}
+                            action="edit users"
+                          >
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={!canUpdateUsers}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </PermissionHint>
+                          <PermissionHint
+                            allowed={canDeleteUsers}
+                            action="delete users"
+                          >
+                            <ConfirmButton
+                              variant="outline"
+                              size="sm"
+                              disabled={!canDeleteUsers}
+                              aria-label="Delete user"
+                              title={`Delete ${user.name}?`}
+                              description="Their bookings and payments are deleted with the account. This cannot be undone."
+                              confirmLabel="Delete user"
+                              onConfirm={() => handleDeleteUser(user.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </ConfirmButton>
+                          </PermissionHint>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <PageControls
+                  page={usersPage}
+                  pagination={usersQuery.data?.pagination}
+                  onPageChange={setUsersPage}
+                />
               </CardContent>
             </Card>
+          )}
+        </TabsContent>
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Booking Analytics</CardTitle>
-                <CardDescription>
-                  Analyze booking patterns and trends
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8">
-                  <Calendar className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <p className="text-gray-500">Booking analytics coming soon</p>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+        {/* Analytics Tab */}
+        <TabsContent value="analytics" className="space-y-4">
+          {!can("analytics:view") ? (
+            <InsufficientPermissions action="view analytics" />
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Revenue Analytics</CardTitle>
+                  <CardDescription>
+                    Track revenue trends and growth
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-center py-8">
+                    <DollarSign className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500">Revenue analytics coming soon</p>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Booking Analytics</CardTitle>
+                  <CardDescription>
+                    Analyze booking patterns and trends
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-center py-8">
+                    <Calendar className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500">Booking analytics coming soon</p>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </TabsContent>
+
+        {/* Payments Tab */}
+        <TabsContent value="payments" className="space-y-4">
+          <AdminPaymentsPanel />
+        </TabsContent>
+
+        {/* Settings Tab */}
+        <TabsContent value="settings" className="space-y-4">
+          <AdminSettingsPanel />
         </TabsContent>
       </Tabs>
+
+      <AlertDialog
+        open={restoreFile !== null}
+        onOpenChange={(open) => !open && !isRestoring && setRestoreFile(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore from {restoreFile?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every category, booking, user, payment and setting is replaced
+              with the contents of the backup. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              disabled={isRestoring}
+              onClick={handleRestore}
+            >
+              {isRestoring ? "Restoring..." : "Restore"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
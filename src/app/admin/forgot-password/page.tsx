@@ -0,0 +1,25 @@
+
+import { Shield } from "lucide-react"
+import { ForgotPasswordForm } from "@/components/forgot-password-form"
+
+export default function AdminForgotPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto h-12 w-12 bg-red-100 dark:bg-red-900 rounded-lg flex items-center justify-center mb-4">
+            <Shield className="h-6 w-6 text-red-600 dark:text-red-400" />
+          </div>
+          <h2 className="mt-6 text-3xl font-bold tracking-tight text-gray-900 dark:text-white">
+            Admin Account Recovery
+          </h2>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+            We&apos;ll email you a link or a code to reset your password
+          </p>
+        </div>
+
+        <ForgotPasswordForm audience="admin" />
+      </div>
+    </div>
+  )
+}
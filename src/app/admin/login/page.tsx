@@ -15,6 +15,7 @@ import { apiClient } from "@/lib/api"
 import { useAdmin } from "@/contexts/admin-context"
 import { Shield, ArrowLeft } from "lucide-react"
 import { BorderBeam } from "@/components/magicui/border-beam"
+import { showError } from "@/lib/error-handler"
 
 const adminLoginSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -46,12 +47,14 @@ export default function AdminLoginPage() {
 
       if (response.success && response.data) {
         // Use admin context to handle login
-        login(response.data.token, response.data.admin)
+        await login(response.data.token, response.data.admin)
         
         toast.success("Admin login successful!")
         router.push("/admin")
+      } else if (response.code === "UNAUTHORIZED" || response.code === "INVALID_CREDENTIALS") {
+        toast.error("Invalid admin credentials")
       } else {
-        toast.error(response.error || "Invalid admin credentials")
+        showError(response)
       }
     } catch {
       toast.error("Something went wrong. Please try again.")
@@ -96,7 +99,15 @@ export default function AdminLoginPage() {
               </div>
               
               <div>
-                <Label htmlFor="password">Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link
+                    href="/admin/forgot-password"
+                    className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
                 <Input
                   id="password"
                   type="password"
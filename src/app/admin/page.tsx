@@ -20,7 +20,10 @@ import {
 } from "lucide-react"
 import { apiClient, type Booking, type BookingStatus, type Student } from "@/lib/api"
 import { useAdmin } from "@/contexts/admin-context"
+import { showError } from "@/lib/error-handler"
 import { RevenueBreakdownCard } from "@/components/revenue-breakdown-card"
+import { MissingRoleNotice, PermissionHint } from "@/components/insufficient-permissions"
+import { ADMIN_ROLE_LABELS } from "@/lib/admin-permissions"
 
 
 export default function AdminPage() {
@@ -31,7 +34,8 @@ export default function AdminPage() {
   const [statusFilter, setStatusFilter] = useState("all")
   const [paymentFilter, setPaymentFilter] = useState("all")
   // const router = useRouter()
-  const { admin, isAuthenticated, logout } = useAdmin()
+  const { admin, isAuthenticated, logout, role, can } = useAdmin()
+  const canUpdateBookings = can("bookings:update")
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -58,7 +62,7 @@ export default function AdminPage() {
         // Set the student data
         setStudents(studentsFromBookings)
       } else {
-        toast.error(response.error || "Failed to fetch bookings")
+        showError(response, "Failed to fetch bookings")
       }
     } catch {
       toast.error("Something went wrong")
@@ -76,7 +80,7 @@ export default function AdminPage() {
         toast.success("Booking status updated successfully")
         fetchBookings()
       } else {
-        toast.error(response.error || "Failed to update booking status")
+        showError(response, "Failed to update booking status")
       }
     } catch {
       toast.error("Something went wrong")
@@ -172,6 +176,9 @@ export default function AdminPage() {
             <p className="text-gray-600 dark:text-gray-400">
               Welcome, {admin?.name || admin?.email || "Admin"}! Manage bookings and consultant status
             </p>
+            {role && (
+              <Badge variant="outline" className="mt-2">{ADMIN_ROLE_LABELS[role]}</Badge>
+            )}
           </div>
           <Button onClick={handleLogout} variant="outline">
             <LogOut className="mr-2 h-4 w-4" />
@@ -179,6 +186,8 @@ export default function AdminPage() {
           </Button>
         </div>
 
+        <MissingRoleNotice className="mb-8" />
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <Card>
@@ -356,24 +365,26 @@ export default function AdminPage() {
                     </div>
 
                     <div className="flex justify-between items-center">
-                      <div className="flex space-x-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => updateBookingStatus(booking.id, "PROCESSING")}
-                          disabled={booking.status === "PROCESSING"}
-                        >
-                          Mark Processing
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => updateBookingStatus(booking.id, "COMPLETED")}
-                          disabled={booking.status === "COMPLETED"}
-                        >
-                          Mark Completed
-                        </Button>
-                      </div>
+                      <PermissionHint allowed={canUpdateBookings} action="update bookings">
+                        <div className="flex space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => updateBookingStatus(booking.id, "PROCESSING")}
+                            disabled={!canUpdateBookings || booking.status === "PROCESSING"}
+                          >
+                            Mark Processing
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => updateBookingStatus(booking.id, "COMPLETED")}
+                            disabled={!canUpdateBookings || booking.status === "COMPLETED"}
+                          >
+                            Mark Completed
+                          </Button>
+                        </div>
+                      </PermissionHint>
                     </div>
                   </Card>
                 ))}
@@ -0,0 +1,47 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { gzipSync } from 'node:zlib'
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+const payload = JSON.stringify({
+  success: true,
+  data: { bookings: Array.from({ length: 200 }, (_, id) => ({ id, details: 'Career guidance session' })) },
+})
+
+let server: Server
+let proxy: typeof import('./route').GET
+
+beforeAll(async () => {
+  // A backend that compresses its answers, like most behind a CDN
+  server = createServer((_request, response) => {
+    const body = gzipSync(payload)
+    response.writeHead(200, {
+      'content-type': 'application/json',
+      'content-encoding': 'gzip',
+      'content-length': String(body.length),
+    })
+    response.end(body)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  vi.stubEnv('NEXT_PUBLIC_API_URL', `http://127.0.0.1:${port}/api`)
+  proxy = (await import('./route')).GET
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('backend proxy', () => {
+  it('passes a gzip-encoded response through whole, without the compressed length', async () => {
+    const request = new NextRequest('http://localhost:3000/api/backend/bookings')
+
+    const response = await proxy(request, { params: Promise.resolve({ path: ['bookings'] }) })
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-length')).toBeNull()
+    expect(await response.text()).toBe(payload)
+  })
+})
@@ -0,0 +1,107 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import type { SessionScope } from '@/lib/auth-utils'
+import { SESSION_COOKIES, sessionCookieOptions, toSessionHint } from '@/lib/session-cookies'
+
+/**
+ * Backend proxy. The browser calls /api/backend/<endpoint> on its own origin;
+ * this adds the token from the httpOnly session cookie and forwards the call to
+ * the backend. Responses that issue a token set the cookie and hand the page a
+ * signature-less copy (see toSessionHint) instead.
+ */
+
+const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://carrierhub-backend.onrender.com/api'
+
+// Endpoints whose successful response carries a new token for the scope
+const TOKEN_ENDPOINTS: Record<string, SessionScope> = {
+  '/auth/register': 'student',
+  '/auth/login': 'student',
+  '/auth/refresh': 'student',
+  '/auth/admin/login': 'admin',
+  '/admin/login': 'admin',
+  '/auth/admin/refresh': 'admin',
+}
+
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'idempotency-key', 'x-request-id']
+// No content-length: fetch decompresses gzip bodies, so the upstream length is the compressed size
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'content-disposition', 'x-request-id']
+
+const scopeFor = (endpoint: string): SessionScope =>
+  endpoint.startsWith('/admin/') || endpoint.startsWith('/auth/admin/') ? 'admin' : 'student'
+
+function pickHeaders(source: Headers, names: string[]): Headers {
+  const headers = new Headers()
+  names.forEach(name => {
+    const value = source.get(name)
+    if (value) headers.set(name, value)
+  })
+  return headers
+}
+
+// Moves the token of a login or refresh response into the cookie
+async function withSessionCookie(upstream: Response, scope: SessionScope): Promise<NextResponse> {
+  const headers = pickHeaders(upstream.headers, FORWARDED_RESPONSE_HEADERS)
+  const body = (await upstream.json().catch(() => null)) as { token?: unknown; data?: { token?: unknown } } | null
+  const holder = body?.data && typeof body.data.token === 'string' ? body.data : body
+  const token = holder?.token
+
+  if (!holder || typeof token !== 'string') {
+    return NextResponse.json(body, { status: upstream.status, headers })
+  }
+
+  holder.token = toSessionHint(token)
+  const response = NextResponse.json(body, { status: upstream.status, headers })
+  response.cookies.set(SESSION_COOKIES[scope], token, sessionCookieOptions(token))
+  return response
+}
+
+async function proxy(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params
+  const endpoint = `/${path.map(encodeURIComponent).join('/')}`
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD'
+
+  // The cookie goes with every request to this origin, so refuse writes started by other sites
+  const origin = request.headers.get('origin')
+  if (hasBody && origin && origin !== request.nextUrl.origin) {
+    return NextResponse.json({ message: 'Cross-site request refused' }, { status: 403 })
+  }
+
+  const scope = scopeFor(endpoint)
+  const token = request.cookies.get(SESSION_COOKIES[scope])?.value
+  // Any Authorization header from the page only holds the session hint
+  const headers = pickHeaders(request.headers, FORWARDED_REQUEST_HEADERS)
+  if (token) headers.set('Authorization', `Bearer ${token}`)
+
+  let upstream: Response
+  try {
+    upstream = await fetch(`${BACKEND_API_URL}${endpoint}${request.nextUrl.search}`, {
+      method: request.method,
+      headers,
+      body: hasBody ? await request.arrayBuffer() : undefined,
+      cache: 'no-store',
+      redirect: 'manual',
+    })
+  } catch {
+    return NextResponse.json({ message: 'The backend could not be reached' }, { status: 502 })
+  }
+
+  const tokenScope = TOKEN_ENDPOINTS[endpoint]
+  if (tokenScope && upstream.ok) return withSessionCookie(upstream, tokenScope)
+
+  const response = new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers: pickHeaders(upstream.headers, FORWARDED_RESPONSE_HEADERS),
+  })
+  // A rejected token will not work again; without the cookie middleware.ts sends the user to login
+  if (upstream.status === 401 && token && !tokenScope) {
+    response.cookies.delete(SESSION_COOKIES[scope])
+  }
+  return response
+}
+
+export {
+  proxy as GET,
+  proxy as POST,
+  proxy as PUT,
+  proxy as PATCH,
+  proxy as DELETE,
+}
@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import type { SessionScope } from '@/lib/auth-utils'
+import { hasLiveSession, SESSION_COOKIES, sessionCookieOptions } from '@/lib/session-cookies'
+
+const SCOPES = Object.keys(SESSION_COOKIES) as SessionScope[]
+
+const isScope = (value: unknown): value is SessionScope => SCOPES.includes(value as SessionScope)
+
+// Which sessions have a live cookie, with their expiry; never the token itself
+export function GET(request: NextRequest) {
+  const sessions = Object.fromEntries(
+    SCOPES.map(scope => {
+      const token = request.cookies.get(SESSION_COOKIES[scope])?.value
+      return [scope, hasLiveSession(token) ? { expiresAt: sessionCookieOptions(token!).expires?.getTime() ?? null } : null]
+    })
+  )
+  return NextResponse.json(sessions, { headers: { 'Cache-Control': 'no-store' } })
+}
+
+// Copies a mock backend token into the cookie. The real backend's tokens only
+// ever reach the cookie through the proxy, so this is closed outside mock mode.
+export async function POST(request: NextRequest) {
+  if (process.env.NEXT_PUBLIC_API_MOCK !== 'true') {
+    return NextResponse.json({ message: 'Not found' }, { status: 404 })
+  }
+
+  const { scope, token } = (await request.json().catch(() => ({}))) as { scope?: unknown; token?: unknown }
+  if (!isScope(scope) || typeof token !== 'string' || !token) {
+    return NextResponse.json({ message: 'scope and token are required' }, { status: 400 })
+  }
+
+  const response = NextResponse.json({ success: true })
+  response.cookies.set(SESSION_COOKIES[scope], token, sessionCookieOptions(token))
+  return response
+}
+
+// Signs out `?scope=`, or both sessions without one
+export function DELETE(request: NextRequest) {
+  const scope = request.nextUrl.searchParams.get('scope')
+  const response = NextResponse.json({ success: true })
+  for (const item of isScope(scope) ? [scope] : SCOPES) {
+    response.cookies.delete(SESSION_COOKIES[item])
+  }
+  return response
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, use, useCallback, useMemo } from "react";
+import { useState, useEffect, use, useCallback, useMemo, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import {
@@ -21,19 +21,22 @@ import { ArrowLeft, CheckCircle } from "lucide-react";
 import Link from "next/link";
 import { apiClient, type ConsultantType } from "@/lib/api";
 import { useAuth } from "@/contexts/auth-context";
+import { generateIdempotencyKey } from "@/lib/utils";
+import { showError } from "@/lib/error-handler";
 import {
   validateRazorpaySetup,
   createRazorpayOptions,
   validatePaymentData,
   PaymentErrors,
+  mapRazorpayError,
+  type RazorpayFailureResponse,
   type RazorpayResponse,
   type PaymentOrder,
 } from "@/lib/payment-utils";
 
+// Email and phone are not editable here: checkout uses the verified ones on the account
 const bookingSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
-  email: z.string().email("Invalid email address"),
-  phone: z.string().min(10, "Phone number must be at least 10 digits"),
   query: z.string().min(10, "Please provide a brief description of your query"),
 });
 
@@ -79,7 +82,12 @@ export default function BookingPage({
     price: number;
   } | null>(null);
   const router = useRouter();
-  const { isAuthenticated, user } = useAuth();
+  const { isAuthenticated, user, isContactVerified } = useAuth();
+  // Reuse the idempotency key while the same booking is resubmitted, so a retry
+  // after a timeout returns the original booking instead of creating a new one
+  const bookingAttemptRef = useRef<{ fingerprint: string; key: string } | null>(
+    null
+  );
 
   // Unwrap the params Promise
   const resolvedParams = use(params);
@@ -130,17 +138,25 @@ export default function BookingPage({
   const {
     register,
     handleSubmit,
+    getFieldState,
+    resetField,
     formState: { errors },
   } = useForm<BookingFormData>({
     resolver: zodResolver(bookingSchema),
     defaultValues: {
       name: user?.name || "",
-      email: user?.email || "",
-      phone: user?.phone || "",
       query: "",
     },
   });
 
+  // Follow profile changes (e.g. the refresh AuthContext makes on load) unless the name was already edited here
+  const profileName = user?.name;
+  useEffect(() => {
+    if (profileName && !getFieldState("name").isDirty) {
+      resetField("name", { defaultValue: profileName });
+    }
+  }, [profileName, getFieldState, resetField]);
+
   const onSubmit = async (data: BookingFormData) => {
     if (!isAuthenticated) {
       toast.error("Please login to book a consultation");
@@ -152,11 +168,17 @@ export default function BookingPage({
       return;
     }
 
+    // Receipts and refunds go to the contact details Razorpay is given
+    if (!user || !isContactVerified) {
+      toast.error(PaymentErrors.CONTACT_NOT_VERIFIED);
+      return;
+    }
+
     // Validate form data for payment
     const validation = validatePaymentData({
       name: data.name,
-      email: data.email,
-      phone: data.phone,
+      email: user.email,
+      phone: user.phone ?? "",
       amount: defaultPricing[consultantType],
     });
 
@@ -174,30 +196,44 @@ export default function BookingPage({
       return;
     }
 
+    const bookingData = {
+      consultantType: consultantType,
+      details: data.query,
+      amount: defaultPricing[consultantType], // Amount in paise
+    };
+    const fingerprint = JSON.stringify(bookingData);
+    if (bookingAttemptRef.current?.fingerprint !== fingerprint) {
+      bookingAttemptRef.current = { fingerprint, key: generateIdempotencyKey() };
+    }
+
     setIsLoading(true);
     try {
       // Create the booking
-      const bookingResponse = await apiClient.createBooking({
-        consultantType: consultantType,
-        details: data.query,
-        amount: defaultPricing[consultantType], // Amount in paise
+      const bookingResponse = await apiClient.createBooking(bookingData, {
+        idempotencyKey: bookingAttemptRef.current.key,
       });
 
       if (bookingResponse.success && bookingResponse.data) {
         const bookingId = bookingResponse.data.booking.id;
 
         // Create payment order
-        const paymentResponse = await apiClient.createPaymentOrder(bookingId);
+        const paymentResponse = await apiClient.createPaymentOrder(bookingId, {
+          idempotencyKey: `${bookingAttemptRef.current.key}:order`,
+        });
 
         if (paymentResponse.success && paymentResponse.data) {
-          await handleRazorpayPayment(paymentResponse.data, bookingId, data);
+          await handleRazorpayPayment(paymentResponse.data, bookingId, {
+            name: data.name,
+            email: user.email,
+            phone: user.phone ?? "",
+          });
+        } else if (paymentResponse.code === "CONFLICT") {
+          toast.error("A payment is already in progress for this booking.");
         } else {
-          toast.error(
-            paymentResponse.error || "Failed to create payment order"
-          );
+          showError(paymentResponse, "Failed to create payment order");
         }
       } else {
-        toast.error(bookingResponse.error || "Failed to create booking");
+        showError(bookingResponse, "Failed to create booking");
       }
     } catch (error) {
       console.error("Booking error:", error);
@@ -210,7 +246,7 @@ export default function BookingPage({
   const handleRazorpayPayment = async (
     order: PaymentOrder,
     bookingId: number,
-    formData: BookingFormData
+    contact: { name: string; email: string; phone: string }
   ) => {
     setIsPaymentLoading(true);
 
@@ -230,10 +266,13 @@ export default function BookingPage({
               "Payment successful! Your consultation has been booked."
             );
             router.push("/dashboard?tab=bookings");
+          } else if (
+            paymentResponse.code === "VALIDATION_ERROR" ||
+            paymentResponse.code === "PAYMENT_FAILED"
+          ) {
+            toast.error(PaymentErrors.VERIFICATION_FAILED);
           } else {
-            toast.error(
-              paymentResponse.error || PaymentErrors.VERIFICATION_FAILED
-            );
+            showError(paymentResponse, PaymentErrors.VERIFICATION_FAILED);
           }
         } catch (error) {
           console.error("Payment verification error:", error);
@@ -243,6 +282,12 @@ export default function BookingPage({
         }
       };
 
+      // Failed attempts are reported separately from closing the checkout
+      const handlePaymentFailed = (response: RazorpayFailureResponse) => {
+        setIsPaymentLoading(false);
+        toast.error(mapRazorpayError(response.error.code));
+      };
+
       const handlePaymentDismiss = () => {
         setIsPaymentLoading(false);
         toast.info(PaymentErrors.PAYMENT_CANCELLED);
@@ -250,11 +295,7 @@ export default function BookingPage({
 
       const options = createRazorpayOptions(
         order,
-        {
-          name: formData.name,
-          email: formData.email,
-          phone: formData.phone,
-        },
+        contact,
         {
           onSuccess: handlePaymentSuccess,
           onDismiss: handlePaymentDismiss,
@@ -263,6 +304,7 @@ export default function BookingPage({
       );
 
       const razorpay = new window.Razorpay(options);
+      razorpay.on("payment.failed", handlePaymentFailed);
       razorpay.open();
     } catch (error) {
       console.error("Razorpay initialization error:", error);
@@ -372,14 +414,9 @@ export default function BookingPage({
                   <Input
                     id="email"
                     type="email"
-                    placeholder="Enter your email"
-                    {...register("email")}
+                    value={user?.email ?? ""}
+                    readOnly
                   />
-                  {errors.email && (
-                    <p className="text-sm text-red-600 dark:text-red-400">
-                      {errors.email.message}
-                    </p>
-                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -387,14 +424,9 @@ export default function BookingPage({
                   <Input
                     id="phone"
                     type="tel"
-                    placeholder="Enter your phone number"
-                    {...register("phone")}
+                    value={user?.phone ?? ""}
+                    readOnly
                   />
-                  {errors.phone && (
-                    <p className="text-sm text-red-600 dark:text-red-400">
-                      {errors.phone.message}
-                    </p>
-                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -423,10 +455,30 @@ export default function BookingPage({
                   </div>
                 )}
 
+                {isAuthenticated && !isContactVerified && (
+                  <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+                    <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                      Payment receipts and refunds go to your email and phone,
+                      so please verify them before booking.{" "}
+                      <Link
+                        href={`/verify?next=${encodeURIComponent(`/book/${resolvedParams.categoryId}`)}`}
+                        className="underline"
+                      >
+                        Verify now
+                      </Link>
+                    </p>
+                  </div>
+                )}
+
                 <Button
                   type="submit"
                   className="w-full"
-                  disabled={isLoading || isPaymentLoading || !isAuthenticated}
+                  disabled={
+                    isLoading ||
+                    isPaymentLoading ||
+                    !isAuthenticated ||
+                    !isContactVerified
+                  }
                 >
                   {isLoading
                     ? "Creating Booking..."
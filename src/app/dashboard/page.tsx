@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -32,38 +32,35 @@ import {
   Building2,
   Lightbulb,
   X,
+  Settings,
 } from "lucide-react";
 import Link from "next/link";
 import { apiClient, type Booking } from "@/lib/api";
 import { useAuth } from "@/contexts/auth-context";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { CACHE_TAGS } from "@/lib/cache";
+import { showError } from "@/lib/error-handler";
 import Image from "next/image";
 
 export default function DashboardPage() {
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const { user, logout } = useAuth();
-
-  const fetchBookings = useCallback(async () => {
-    try {
-      const response = await apiClient.getBookings();
-
-      if (response.success && response.data) {
-        setBookings(response.data.bookings || []);
-      } else {
-        toast.error(response.error || "Failed to fetch bookings");
-      }
-    } catch {
-      toast.error("Something went wrong");
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  const {
+    data,
+    error,
+    isLoading: isQueryLoading,
+    isValidating,
+    refetch,
+  } = useApiQuery(
+    user ? `bookings:${user.id}` : null,
+    () => apiClient.getBookings(),
+    { tags: user ? [CACHE_TAGS.BOOKINGS, CACHE_TAGS.studentBookings(user.id)] : [] }
+  );
+  const bookings: Booking[] = data?.bookings || [];
+  const isLoading = !user || isQueryLoading;
 
   useEffect(() => {
-    if (user) {
-      fetchBookings();
-    }
-  }, [user, fetchBookings]);
+    if (error) showError(error, "Failed to fetch bookings");
+  }, [error]);
 
   const handleLogout = () => {
     logout();
@@ -207,13 +204,13 @@ export default function DashboardPage() {
           </div>
           <div className="flex items-center space-x-3">
             <Button
-              onClick={fetchBookings}
+              onClick={refetch}
               variant="outline"
               className="border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-300"
-              disabled={isLoading}
+              disabled={isValidating}
             >
               <RefreshCw
-                className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`}
+                className={`mr-2 h-4 w-4 ${isValidating ? "animate-spin" : ""}`}
               />
               Refresh
             </Button>
@@ -227,6 +224,16 @@ export default function DashboardPage() {
                 <ArrowRight className="ml-2 h-4 w-4" />
               </Link>
             </Button>
+            <Button
+              asChild
+              variant="outline"
+              className="border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-300"
+            >
+              <Link href="/dashboard/settings">
+                <Settings className="mr-2 h-4 w-4" />
+                Settings
+              </Link>
+            </Button>
             <Button
               onClick={handleLogout}
               variant="outline"
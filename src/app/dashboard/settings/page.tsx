@@ -0,0 +1,65 @@
+"use client"
+
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { ActiveSessions } from "@/components/active-sessions"
+import { ChangePasswordForm } from "@/components/change-password-form"
+import { ContactVerification } from "@/components/contact-verification"
+import { NotificationPreferencesForm } from "@/components/notification-preferences-form"
+import { ProfileSettingsForm } from "@/components/profile-settings-form"
+import { Button } from "@/components/ui/button"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useAuth } from "@/contexts/auth-context"
+
+const SETTINGS_TABS = ["profile", "security", "notifications"] as const
+
+export default function SettingsPage() {
+  const searchParams = useSearchParams()
+  const { isContactVerified } = useAuth()
+  const requestedTab = searchParams.get("tab")
+  const defaultTab = SETTINGS_TABS.find((tab) => tab === requestedTab) ?? "profile"
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/dashboard">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Account Settings</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Manage your profile, password, notifications and signed-in devices
+          </p>
+        </div>
+
+        <Tabs defaultValue={defaultTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="profile">Profile</TabsTrigger>
+            <TabsTrigger value="security">Security</TabsTrigger>
+            <TabsTrigger value="notifications">Notifications</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="profile" className="space-y-6">
+            <ProfileSettingsForm />
+            {!isContactVerified && (
+              <ContactVerification description="Verify your email and phone to book consultations; receipts and refunds are sent there" />
+            )}
+          </TabsContent>
+
+          <TabsContent value="security" className="space-y-6">
+            <ChangePasswordForm />
+            <ActiveSessions />
+          </TabsContent>
+
+          <TabsContent value="notifications">
+            <NotificationPreferencesForm />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  )
+}
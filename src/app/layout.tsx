@@ -11,6 +11,8 @@ import { AdminWrapper } from "@/components/admin-wrapper";
 import { ClientWrapper } from "@/components/client-wrapper";
 import { ConnectionStatus } from "@/components/connection-status";
 import { ErrorBoundary } from "@/components/error-boundary";
+import { ErrorReporter } from "@/components/error-reporter";
+import { isFakeRazorpayEnabled } from "@/lib/fake-razorpay";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -36,7 +38,10 @@ export default function RootLayout({
   return (
     <html lang="en" suppressHydrationWarning>
       <head>
-        <script src="https://checkout.razorpay.com/v1/checkout.js" async />
+        {/* The fake checkout (see lib/fake-razorpay.ts) replaces checkout.js */}
+        {!isFakeRazorpayEnabled() && (
+          <script src="https://checkout.razorpay.com/v1/checkout.js" async />
+        )}
       </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
@@ -48,6 +53,7 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
+          <ErrorReporter />
           <ErrorBoundary>
             <ClientWrapper>
               <AuthProvider>
@@ -22,6 +22,7 @@ import { useAuth } from "@/contexts/auth-context";
 import { CheckCircle } from "lucide-react";
 import { isLoggedIn, getSafeRedirect } from "@/lib/auth-utils";
 import { logger } from "@/lib/logger";
+import { showError } from "@/lib/error-handler";
 import { BorderBeam } from "@/components/magicui/border-beam";
 
 const loginSchema = z.object({
@@ -74,7 +75,7 @@ export default function LoginPage() {
         // Backend returns { student, token }
         if (response.data.token && response.data.student) {
           // Use the auth context to update state
-          login(response.data.token, response.data.student);
+          await login(response.data.token, response.data.student);
 
           toast.success("Login successful!");
 
@@ -86,9 +87,14 @@ export default function LoginPage() {
           logger.error("Invalid login response structure", response.data);
           toast.error("Invalid response from server");
         }
+      } else if (
+        response.code === "UNAUTHORIZED" ||
+        response.code === "INVALID_CREDENTIALS"
+      ) {
+        logger.authAction("Login rejected", { code: response.code });
+        toast.error("Invalid email or password. Please check and try again.");
       } else {
-        console.error("🔐 Login failed:", response.error);
-        toast.error(response.error || "Invalid credentials");
+        showError(response);
       }
     } catch (error) {
       console.error("🔐 Login error:", error);
@@ -160,7 +166,15 @@ export default function LoginPage() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link
+                    href="/forgot-password"
+                    className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
                 <Input
                   id="password"
                   type="password"
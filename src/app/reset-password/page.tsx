@@ -0,0 +1,21 @@
+
+import { ResetPasswordForm } from "@/components/reset-password-form"
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h2 className="mt-6 text-3xl font-bold text-gray-900 dark:text-white">
+            Recover your account
+          </h2>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            Choose a new password for your account
+          </p>
+        </div>
+
+        <ResetPasswordForm audience="student" />
+      </div>
+    </div>
+  )
+}
@@ -15,16 +15,13 @@ import { apiClient } from "@/lib/api"
 import { useAuth } from "@/contexts/auth-context"
 import { isLoggedIn, getSafeRedirect } from "@/lib/auth-utils"
 import { BorderBeam } from "@/components/magicui/border-beam"
+import { showError } from "@/lib/error-handler"
+import { phoneSchema, withPasswordConfirmation } from "@/lib/form-schemas"
 
-const signupSchema = z.object({
+const signupSchema = withPasswordConfirmation({
   name: z.string().min(2, "Name must be at least 2 characters"),
   email: z.string().email("Invalid email address"),
-  phone: z.string().min(10, "Phone number must be at least 10 digits"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
-  confirmPassword: z.string(),
-}).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ["confirmPassword"],
+  phone: phoneSchema,
 })
 
 type SignupFormData = z.infer<typeof signupSchema>
@@ -67,17 +64,19 @@ export default function SignupPage() {
       if (response.success && response.data) {
         // Backend returns { student, token }
         if (response.data.token && response.data.student) {
-          login(response.data.token, response.data.student)
+          await login(response.data.token, response.data.student)
           toast.success("Account created successfully!")
           
-          // Redirect to intended destination or dashboard
+          // Confirm the email and phone first, then on to the intended destination
           const dest = getSafeRedirect(next, '/dashboard')
-          router.replace(dest)
+          router.replace(`/verify?next=${encodeURIComponent(dest)}`)
         } else {
           toast.error("Invalid response from server")
         }
+      } else if (response.code === "CONFLICT") {
+        toast.error("An account with this email already exists")
       } else {
-        toast.error(response.error || "Failed to create account")
+        showError(response)
       }
     } catch {
       toast.error("Something went wrong. Please try again.")
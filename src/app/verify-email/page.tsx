@@ -0,0 +1,97 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { AlertTriangle, MailCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAuth } from "@/contexts/auth-context"
+import { apiClient } from "@/lib/api"
+import { showError } from "@/lib/error-handler"
+
+// Landing page for the emailed verification link (`?token=`); works without signing in
+export default function VerifyEmailPage() {
+  const searchParams = useSearchParams()
+  const { user, updateUser, isAuthenticated } = useAuth()
+  // Read once; the token is then removed from the address bar
+  const [token] = useState(() => searchParams.get("token"))
+  const [status, setStatus] = useState<"checking" | "verified" | "invalid">(token ? "checking" : "invalid")
+  const [verifiedStudent, setVerifiedStudent] = useState<{ id: number } | null>(null)
+
+  useEffect(() => {
+    if (!token) return
+    // Keep the token out of the history, bookmarks and Referer headers
+    window.history.replaceState(null, "", window.location.pathname)
+
+    let active = true
+    apiClient.verifyEmail({ token }).then((response) => {
+      if (!active) return
+      if (response.success) {
+        setVerifiedStudent(response.data.student)
+        setStatus("verified")
+      } else {
+        setStatus("invalid")
+        if (response.code !== "VALIDATION_ERROR") showError(response)
+      }
+    })
+    return () => {
+      active = false
+    }
+  }, [token])
+
+  useEffect(() => {
+    // The link may be opened while signed in as someone else, or signed out
+    if (verifiedStudent && user?.id === verifiedStudent.id && !user.emailVerified) {
+      updateUser({ ...user, emailVerified: true })
+    }
+  }, [verifiedStudent, user, updateUser])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        {status === "checking" ? (
+          <Card>
+            <CardContent className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </CardContent>
+          </Card>
+        ) : status === "verified" ? (
+          <Card>
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-2">
+                <MailCheck className="h-10 w-10 text-green-600" />
+              </div>
+              <CardTitle>Email verified</CardTitle>
+              <CardDescription>Thanks for confirming your email address.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild className="w-full">
+                <Link href={isAuthenticated ? "/verify" : "/login"}>
+                  {isAuthenticated ? "Continue" : "Sign in"}
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-2">
+                <AlertTriangle className="h-10 w-10 text-amber-500" />
+              </div>
+              <CardTitle>This verification link has expired</CardTitle>
+              <CardDescription>
+                Verification links work once. Sign in and request a new one to continue.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild className="w-full">
+                <Link href={isAuthenticated ? "/verify" : "/login?next=/verify"}>Request a new link</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { ContactVerification } from "@/components/contact-verification"
+import { useAuth } from "@/contexts/auth-context"
+import { getSafeRedirect } from "@/lib/auth-utils"
+
+export default function VerifyPage() {
+  const searchParams = useSearchParams()
+  const { isContactVerified } = useAuth()
+  const dest = getSafeRedirect(searchParams.get("next"), "/dashboard")
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h2 className="mt-6 text-3xl font-bold text-gray-900 dark:text-white">
+            Confirm your email and phone
+          </h2>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            You can browse without it, but bookings need verified contact details
+          </p>
+        </div>
+
+        <ContactVerification />
+
+        <Button asChild className="w-full" variant={isContactVerified ? "default" : "ghost"}>
+          <Link href={dest}>{isContactVerified ? "Continue" : "Skip for now"}</Link>
+        </Button>
+      </div>
+    </div>
+  )
+}
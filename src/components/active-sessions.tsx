@@ -0,0 +1,140 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Laptop, Smartphone } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAuth } from "@/contexts/auth-context"
+import { useApiQuery } from "@/hooks/use-api-query"
+import { apiClient, type AccountSession } from "@/lib/api"
+import { CACHE_TAGS } from "@/lib/cache"
+import { showError } from "@/lib/error-handler"
+import { formatDate } from "@/lib/utils"
+
+const isMobile = (userAgent: string) => /android|iphone|ipad|mobile/i.test(userAgent)
+
+// "Chrome on Android"; good enough to tell devices apart, not a full parser
+function describeDevice(userAgent?: string): string {
+  if (!userAgent) return "Unknown device"
+
+  const browser =
+    /edg\//i.test(userAgent) ? "Edge"
+    : /firefox\//i.test(userAgent) ? "Firefox"
+    : /chrome\//i.test(userAgent) ? "Chrome"
+    : /safari\//i.test(userAgent) ? "Safari"
+    : "Browser"
+  const os =
+    /android/i.test(userAgent) ? "Android"
+    : /iphone|ipad/i.test(userAgent) ? "iOS"
+    : /windows/i.test(userAgent) ? "Windows"
+    : /mac os/i.test(userAgent) ? "macOS"
+    : /linux/i.test(userAgent) ? "Linux"
+    : "unknown OS"
+  return `${browser} on ${os}`
+}
+
+export function ActiveSessions() {
+  const { user } = useAuth()
+  const { data, error, isLoading } = useApiQuery(
+    user ? `sessions:${user.id}` : null,
+    () => apiClient.getSessions(),
+    { tags: [CACHE_TAGS.SESSIONS] }
+  )
+  // Session being signed out, or "others"
+  const [pending, setPending] = useState<string | null>(null)
+  const sessions: AccountSession[] = data?.sessions ?? []
+  const hasOthers = sessions.some((session) => !session.current)
+
+  useEffect(() => {
+    if (error) showError(error, "Failed to load your sessions")
+  }, [error])
+
+  const revoke = async (sessionId: string) => {
+    setPending(sessionId)
+    try {
+      const response = await apiClient.revokeSession(sessionId)
+      if (response.success) {
+        toast.success("Device signed out")
+      } else {
+        showError(response, "Failed to sign out the device")
+      }
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const revokeOthers = async () => {
+    setPending("others")
+    try {
+      const response = await apiClient.revokeOtherSessions()
+      if (response.success) {
+        toast.success("Signed out of all other devices")
+      } else {
+        showError(response, "Failed to sign out other devices")
+      }
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active sessions</CardTitle>
+        <CardDescription>Devices signed in to your account. Sign out any you don&apos;t recognise.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sessions.map((session) => (
+                <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-3">
+                    {session.userAgent && isMobile(session.userAgent) ? (
+                      <Smartphone className="h-5 w-5 text-gray-500" />
+                    ) : (
+                      <Laptop className="h-5 w-5 text-gray-500" />
+                    )}
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {describeDevice(session.userAgent)}
+                        {session.current && (
+                          <Badge variant="secondary" className="ml-2">This device</Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {session.ipAddress ? `${session.ipAddress} · ` : ""}
+                        Last active {formatDate(session.lastActiveAt)}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={pending !== null}
+                      onClick={() => revoke(session.id)}
+                    >
+                      {pending === session.id ? "Signing out..." : "Sign out"}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {hasOthers && (
+              <Button variant="outline" disabled={pending !== null} onClick={revokeOthers}>
+                {pending === "others" ? "Signing out..." : "Sign out all other devices"}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { RotateCcw } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { InsufficientPermissions, PermissionHint } from "@/components/insufficient-permissions"
+import { useAdmin } from "@/contexts/admin-context"
+import { useApiQuery } from "@/hooks/use-api-query"
+import { apiClient, type Payment } from "@/lib/api"
+import { CACHE_TAGS } from "@/lib/cache"
+import { showError } from "@/lib/error-handler"
+import { formatDate, generateIdempotencyKey } from "@/lib/utils"
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency }).format(amount / 100)
+
+export function AdminPaymentsPanel() {
+  const { can } = useAdmin()
+  const canView = can("payments:view")
+  const canRefund = can("payments:refund")
+  const { data, error, isLoading } = useApiQuery(
+    canView ? "admin-payments:1" : null,
+    () => apiClient.getPaymentHistory({ page: 1, limit: 20 }),
+    { tags: [CACHE_TAGS.PAYMENTS] }
+  )
+  // Payment whose refund is being confirmed
+  const [refunding, setRefunding] = useState<Payment | null>(null)
+  const [reason, setReason] = useState("")
+  // One key per confirmation, so a retried submit is not refunded twice
+  const [idempotencyKey, setIdempotencyKey] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (error) showError(error, "Failed to load payments")
+  }, [error])
+
+  if (!canView) return <InsufficientPermissions action="view payments" />
+
+  const openRefund = (payment: Payment) => {
+    setRefunding(payment)
+    setReason("")
+    setIdempotencyKey(generateIdempotencyKey())
+  }
+
+  const submitRefund = async () => {
+    if (!refunding) return
+    setIsSubmitting(true)
+    try {
+      const response = await apiClient.refundPayment(refunding.id, reason.trim(), { idempotencyKey })
+      if (response.success) {
+        toast.success(response.data.message || "Refund initiated")
+        setRefunding(null)
+      } else {
+        showError(response, "Failed to refund the payment")
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const payments = data?.payments ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payments</CardTitle>
+        <CardDescription>Recent Razorpay payments and refunds</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : payments.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No payments found</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {payments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <h4 className="font-semibold">{formatAmount(payment.amount, payment.currency)}</h4>
+                    <Badge variant={payment.status === "FAILED" ? "destructive" : "secondary"}>
+                      {payment.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {payment.razorpayPaymentId} • Booking #{payment.bookingId}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{formatDate(payment.createdAt)}</p>
+                </div>
+                {payment.status === "SUCCESS" && (
+                  <PermissionHint allowed={canRefund} action="refund payments">
+                    <Button variant="outline" size="sm" disabled={!canRefund} onClick={() => openRefund(payment)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Refund
+                    </Button>
+                  </PermissionHint>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={refunding !== null} onOpenChange={(open) => !open && setRefunding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Refund this payment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {refunding &&
+                `${formatAmount(refunding.amount, refunding.currency)} goes back to the student and booking #${refunding.bookingId} is marked failed.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Why is this payment being refunded?"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <Button variant="destructive" disabled={isSubmitting || !reason.trim()} onClick={submitRefund}>
+              {isSubmitting ? "Refunding..." : "Refund"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { InsufficientPermissions, PermissionHint } from "@/components/insufficient-permissions"
+import { useAdmin } from "@/contexts/admin-context"
+import { useApiQuery } from "@/hooks/use-api-query"
+import { apiClient, type SystemSettings } from "@/lib/api"
+import { CACHE_TAGS } from "@/lib/cache"
+import { showError } from "@/lib/error-handler"
+
+type SiteSwitch = "maintenanceMode" | "registrationEnabled"
+
+const SWITCHES: { key: SiteSwitch; label: string; description: string }[] = [
+  {
+    key: "maintenanceMode",
+    label: "Maintenance mode",
+    description: "Mark the site as down for maintenance",
+  },
+  {
+    key: "registrationEnabled",
+    label: "Registration open",
+    description: "Let new students create accounts",
+  },
+]
+
+export function AdminSettingsPanel() {
+  const { can } = useAdmin()
+  const canView = can("settings:view")
+  const canUpdate = can("settings:update")
+  const { data, error, isLoading, mutate } = useApiQuery(
+    canView ? "admin-settings" : null,
+    () => apiClient.getSystemSettings(),
+    { tags: [CACHE_TAGS.SETTINGS] }
+  )
+  // Edited copy; null until the saved settings arrive
+  const [draft, setDraft] = useState<SystemSettings | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (data) setDraft(data)
+  }, [data])
+
+  useEffect(() => {
+    if (error) showError(error, "Failed to load site settings")
+  }, [error])
+
+  if (!canView) return <InsufficientPermissions action="view site settings" />
+
+  const isDirty = Boolean(data && draft && SWITCHES.some(({ key }) => data[key] !== draft[key]))
+
+  const onSave = async () => {
+    if (!draft) return
+    setIsSaving(true)
+    try {
+      const response = await apiClient.updateSystemSettings(draft)
+      if (response.success) {
+        mutate(draft)
+        toast.success("Site settings saved")
+      } else {
+        showError(response, "Failed to save site settings")
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Site Settings</CardTitle>
+        <CardDescription>
+          {draft ? `${draft.siteName} • ${draft.contactEmail} • ${draft.contactPhone}` : "Site-wide switches"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !draft ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            {SWITCHES.map(({ key, label, description }) => (
+              <div key={key} className="flex items-start gap-3">
+                <input
+                  id={`setting-${key}`}
+                  type="checkbox"
+                  className="mt-1 h-4 w-4 accent-blue-600"
+                  checked={draft[key]}
+                  disabled={!canUpdate}
+                  onChange={(event) => setDraft({ ...draft, [key]: event.target.checked })}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor={`setting-${key}`}>{label}</Label>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{description}</p>
+                </div>
+              </div>
+            ))}
+            <PermissionHint allowed={canUpdate} action="change site settings">
+              <Button onClick={onSave} disabled={!canUpdate || isSaving || !isDirty}>
+                {isSaving ? "Saving..." : "Save settings"}
+              </Button>
+            </PermissionHint>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,6 +3,7 @@
 import { useAdmin } from "@/contexts/admin-context"
 import { useRouter, usePathname } from "next/navigation"
 import { useEffect } from "react"
+import { ADMIN_AUTH_ROUTES, ADMIN_LOGIN_ROUTE, matchesRoute, requiredSession } from "@/lib/route-access"
 
 interface AdminWrapperProps {
   children: React.ReactNode
@@ -13,22 +14,19 @@ export function AdminWrapper({ children }: AdminWrapperProps) {
   const router = useRouter()
   const pathname = usePathname()
 
-  // Define admin routes
-  const adminRoutes = ['/admin']
-  const adminLoginRoute = '/admin/login'
-  const studentRoutes = ['/dashboard', '/book']
-  const isAdminRoute = adminRoutes.some(route => pathname.startsWith(route))
-  const isAdminLoginRoute = pathname === adminLoginRoute
-  const isStudentRoute = studentRoutes.some(route => pathname.startsWith(route))
+  // middleware.ts guards the first load; this follows logouts while the page is open
+  const isProtectedAdminRoute = requiredSession(pathname) === 'admin'
+  const isAdminAuthRoute = ADMIN_AUTH_ROUTES.includes(pathname)
+  const isStudentRoute = ['/dashboard', '/book'].some(route => matchesRoute(pathname, route))
   const isHomePage = pathname === '/'
 
   useEffect(() => {
     if (isLoading) return // Wait for auth check to complete
 
-    if (isAdminRoute && !isAdminLoginRoute && !isAuthenticated) {
+    if (isProtectedAdminRoute && !isAuthenticated) {
       // Redirect to admin login if trying to access admin route without auth
-      router.push('/admin/login')
-    } else if (isAdminLoginRoute && isAuthenticated) {
+      router.push(ADMIN_LOGIN_ROUTE)
+    } else if (isAdminAuthRoute && isAuthenticated) {
       // Redirect to admin dashboard if trying to access login while authenticated
       router.push('/admin')
     } else if (isAuthenticated && (isStudentRoute || isHomePage)) {
@@ -43,7 +41,7 @@ export function AdminWrapper({ children }: AdminWrapperProps) {
       }
       // If there's a next parameter, let the AuthWrapper handle the redirect
     }
-  }, [isAuthenticated, isLoading, isAdminRoute, isAdminLoginRoute, isStudentRoute, isHomePage, router])
+  }, [isAuthenticated, isLoading, isProtectedAdminRoute, isAdminAuthRoute, isStudentRoute, isHomePage, router])
 
   // Show loading spinner while checking auth
   if (isLoading) {
@@ -55,12 +53,12 @@ export function AdminWrapper({ children }: AdminWrapperProps) {
   }
 
   // Don't render admin content if not authenticated
-  if (isAdminRoute && !isAdminLoginRoute && !isAuthenticated) {
+  if (isProtectedAdminRoute && !isAuthenticated) {
     return null
   }
 
   // Don't render admin login if already authenticated
-  if (isAdminLoginRoute && isAuthenticated) {
+  if (isAdminAuthRoute && isAuthenticated) {
     return null
   }
 
@@ -4,6 +4,7 @@ import { useAuth } from "@/contexts/auth-context";
 import { useRouter, usePathname, useSearchParams } from "next/navigation";
 import { useEffect, Suspense } from "react";
 import { getSafeRedirect } from "@/lib/auth-utils";
+import { loginRedirect, requiredSession, STUDENT_AUTH_ROUTES } from "@/lib/route-access";
 
 interface AuthWrapperProps {
   children: React.ReactNode;
@@ -15,13 +16,9 @@ function AuthWrapperContent({ children }: AuthWrapperProps) {
   const pathname = usePathname();
   const searchParams = useSearchParams();
 
-  // Define protected routes
-  const protectedRoutes = ["/dashboard", "/book"];
-  const authRoutes = ["/login", "/signup"];
-  const isProtectedRoute = protectedRoutes.some((route) =>
-    pathname.startsWith(route)
-  );
-  const isAuthRoute = authRoutes.includes(pathname);
+  // middleware.ts guards the first load; this follows logouts while the page is open
+  const isProtectedRoute = requiredSession(pathname) === "student";
+  const isAuthRoute = STUDENT_AUTH_ROUTES.includes(pathname);
 
   useEffect(() => {
     if (isLoading) return; // Wait for auth check to complete
@@ -32,7 +29,7 @@ function AuthWrapperContent({ children }: AuthWrapperProps) {
       const fullPath = currentSearch
         ? `${pathname}?${currentSearch}`
         : pathname;
-      router.push(`/login?next=${encodeURIComponent(fullPath)}`);
+      router.push(loginRedirect("student", fullPath));
     } else if (isAuthRoute && isAuthenticated) {
       // Get next parameter from URL
       const next = searchParams?.get("next") || null;
@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { apiClient } from "@/lib/api"
+import { showError } from "@/lib/error-handler"
+import { withPasswordConfirmation } from "@/lib/form-schemas"
+
+const changePasswordSchema = withPasswordConfirmation({
+  currentPassword: z.string().min(1, "Enter your current password"),
+})
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>
+
+export function ChangePasswordForm() {
+  const [isSaving, setIsSaving] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+  })
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setIsSaving(true)
+    try {
+      const response = await apiClient.changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.password,
+      })
+      if (response.success) {
+        reset()
+        toast.success(response.data.message || "Password changed")
+      } else if (response.details.some((detail) => detail.field === "currentPassword")) {
+        setError("currentPassword", { message: "Current password is incorrect" })
+      } else {
+        showError(response, "Failed to change password")
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>Changing your password signs you out on your other devices</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="currentPassword">Current Password</Label>
+            <Input
+              id="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              {...register("currentPassword")}
+            />
+            {errors.currentPassword && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errors.currentPassword.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="password">New Password</Label>
+            <Input id="password" type="password" autoComplete="new-password" {...register("password")} />
+            {errors.password && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errors.password.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm New Password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              {...register("confirmPassword")}
+            />
+            {errors.confirmPassword && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Change password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
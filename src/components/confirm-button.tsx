@@ -0,0 +1,58 @@
+"use client"
+
+import { useState, type ComponentProps, type ReactNode } from "react"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+
+interface ConfirmButtonProps extends Omit<ComponentProps<typeof Button>, "onClick" | "title"> {
+  title: string
+  description: ReactNode
+  confirmLabel: string
+  // The dialog stays open, with its buttons disabled, until this settles
+  onConfirm: () => Promise<unknown>
+}
+
+// A button that asks before running an action that cannot be undone
+export function ConfirmButton({ title, description, confirmLabel, onConfirm, ...buttonProps }: ConfirmButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const confirm = async () => {
+    setIsRunning(true)
+    try {
+      await onConfirm()
+      setOpen(false)
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={(next) => !isRunning && setOpen(next)}>
+      <AlertDialogTrigger asChild>
+        <Button {...buttonProps} />
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isRunning}>Cancel</AlertDialogCancel>
+          <Button variant="destructive" disabled={isRunning} onClick={confirm}>
+            {isRunning ? "Working..." : confirmLabel}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { useState, type FormEvent, type ReactNode } from "react"
+import { toast } from "sonner"
+import { CheckCircle, Mail, Phone } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useAuth } from "@/contexts/auth-context"
+import { apiClient, type ApiFailure, type ApiResponse, type Student } from "@/lib/api"
+import { showError } from "@/lib/error-handler"
+
+// Length of the emailed and texted verification codes
+const CODE_LENGTH = 6
+
+// A wrong or expired token or code comes back as a validation error on that field
+const isInvalidProof = (failure: ApiFailure) =>
+  failure.code === "VALIDATION_ERROR" &&
+  failure.details.some((detail) => detail.field === "token" || detail.field === "otp")
+
+interface ContactVerificationProps {
+  title?: string
+  description?: string
+}
+
+/**
+ * Verifies the signed-in student's email (link or code) and phone (code) and
+ * updates the session's user as each one is confirmed
+ */
+export function ContactVerification({
+  title = "Verify your contact details",
+  description = "Receipts and refunds are sent to your email and phone, so we need to confirm both before you can pay",
+}: ContactVerificationProps) {
+  const { user, updateUser, isEmailVerified, isPhoneVerified } = useAuth()
+  const [emailLinkSent, setEmailLinkSent] = useState(false)
+
+  if (!user) return null
+
+  const onVerified = (response: ApiResponse<{ student: Student }>) => {
+    if (response.success) {
+      updateUser(response.data.student)
+      toast.success(response.message || "Verified")
+      return true
+    }
+    if (isInvalidProof(response)) {
+      toast.error("That code is incorrect or has expired. Check it or request a new one.")
+    } else {
+      showError(response)
+    }
+    return false
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ContactRow
+          icon={<Mail className="h-4 w-4" />}
+          label="Email"
+          value={user.email}
+          verified={isEmailVerified}
+        >
+          <CodeEntry
+            id="email-code"
+            sendLabel="Email me a code"
+            onSend={async () => {
+              const response = await apiClient.sendEmailVerification({ method: "otp" })
+              if (!response.success) showError(response)
+              return response.success
+            }}
+            onVerify={async (otp) => onVerified(await apiClient.verifyEmail({ otp }))}
+          >
+            <Button
+              type="button"
+              variant="link"
+              className="h-auto p-0"
+              onClick={async () => {
+                const response = await apiClient.sendEmailVerification({ method: "link" })
+                if (response.success) {
+                  setEmailLinkSent(true)
+                } else {
+                  showError(response)
+                }
+              }}
+            >
+              {emailLinkSent ? "Link sent. Send another" : "Email me a link instead"}
+            </Button>
+          </CodeEntry>
+        </ContactRow>
+
+        <ContactRow
+          icon={<Phone className="h-4 w-4" />}
+          label="Phone"
+          value={user.phone ?? ""}
+          verified={isPhoneVerified}
+        >
+          <CodeEntry
+            id="phone-code"
+            sendLabel="Text me a code"
+            onSend={async () => {
+              const response = await apiClient.sendPhoneVerification()
+              if (!response.success) showError(response)
+              return response.success
+            }}
+            onVerify={async (otp) => onVerified(await apiClient.verifyPhone({ otp }))}
+          />
+        </ContactRow>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface ContactRowProps {
+  icon: ReactNode
+  label: string
+  value: string
+  verified: boolean
+  children: ReactNode
+}
+
+function ContactRow({ icon, label, value, verified, children }: ContactRowProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          {icon}
+          <span className="text-gray-600 dark:text-gray-400">{label}</span>
+          <span className="font-medium text-gray-900 dark:text-white">{value}</span>
+        </div>
+        {verified ? (
+          <Badge variant="secondary" className="text-green-700 dark:text-green-400">
+            <CheckCircle />
+            Verified
+          </Badge>
+        ) : (
+          <Badge variant="outline">Not verified</Badge>
+        )}
+      </div>
+      {!verified && children}
+    </div>
+  )
+}
+
+interface CodeEntryProps {
+  id: string
+  sendLabel: string
+  // Resolve to whether the code went out / was accepted
+  onSend: () => Promise<boolean>
+  onVerify: (otp: string) => Promise<boolean>
+  children?: ReactNode
+}
+
+function CodeEntry({ id, sendLabel, onSend, onVerify, children }: CodeEntryProps) {
+  const [sent, setSent] = useState(false)
+  const [code, setCode] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const [isVerifying, setIsVerifying] = useState(false)
+
+  const send = async () => {
+    setIsSending(true)
+    try {
+      if (await onSend()) setSent(true)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const verify = async (event: FormEvent) => {
+    event.preventDefault()
+    setIsVerifying(true)
+    try {
+      if (!(await onVerify(code.trim()))) setCode("")
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {sent ? (
+        <form onSubmit={verify} className="space-y-2">
+          <Label htmlFor={id}>Enter the {CODE_LENGTH}-digit code</Label>
+          <div className="flex gap-2">
+            <Input
+              id={id}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={CODE_LENGTH}
+              placeholder="123456"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+            />
+            <Button type="submit" disabled={isVerifying || code.trim().length !== CODE_LENGTH}>
+              {isVerifying ? "Verifying..." : "Verify"}
+            </Button>
+          </div>
+          <Button type="button" variant="link" className="h-auto p-0" onClick={send} disabled={isSending}>
+            Resend code
+          </Button>
+        </form>
+      ) : (
+        <Button type="button" variant="outline" onClick={send} disabled={isSending}>
+          {isSending ? "Sending..." : sendLabel}
+        </Button>
+      )}
+      {children && <div>{children}</div>}
+    </div>
+  )
+}
@@ -1,11 +1,12 @@
 "use client"
 
-import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
-import { apiClient, BookingStatus, ConsultantType } from "@/lib/api"
+import { apiClient, BookingStatus, ConsultantType, type AdminStats } from "@/lib/api"
+import { useApiQuery } from "@/hooks/use-api-query"
+import { CACHE_TAGS } from "@/lib/cache"
 import { 
   BookOpen, 
   DollarSign, 
@@ -16,70 +17,29 @@ import {
   AlertCircle
 } from "lucide-react"
 
-interface DashboardStats {
-  totalBookings: number
-  pendingBookings: number
-  successBookings: number
-  completedBookings: number
-  totalRevenue: number
-  monthlyBookings: number
-}
-
-interface Booking {
-  id: number
-  studentId: number
-  consultantType: ConsultantType
-  details: string
-  amount: number
-  currency: string
-  status: BookingStatus
-  razorpayOrderId?: string
-  student?: {
-    id: number
-    name: string
-    email: string
-    phone: string
-  }
-  createdAt: string
-  updatedAt: string
-}
-
 export default function DashboardStats() {
-  const [stats, setStats] = useState<DashboardStats | null>(null)
-  const [recentBookings, setRecentBookings] = useState<Booking[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    fetchDashboardData()
-  }, [])
-
-  const fetchDashboardData = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      // Fetch dashboard stats
-      const statsResponse = await apiClient.getAdminStats()
-      if (statsResponse.success && statsResponse.data) {
-        setStats(statsResponse.data)
-      }
-
-      // Fetch recent bookings
-      const bookingsResponse = await apiClient.getAdminBookings({
-        limit: 5,
-        page: 1
-      })
-      if (bookingsResponse.success && bookingsResponse.data) {
-        setRecentBookings(bookingsResponse.data.bookings)
-      }
+  const statsQuery = useApiQuery('admin-stats', () => apiClient.getAdminStats(), {
+    tags: [CACHE_TAGS.ADMIN_STATS]
+  })
+  const bookingsQuery = useApiQuery('admin-bookings:recent', () =>
+    apiClient.getAdminBookings({
+      limit: 5,
+      page: 1
+    }),
+    { tags: [CACHE_TAGS.BOOKINGS, CACHE_TAGS.ADMIN_BOOKINGS] }
+  )
 
-    } catch (err) {
-      console.error('Error fetching dashboard data:', err)
-      setError('Failed to load dashboard data')
-    } finally {
-      setLoading(false)
-    }
+  const stats: AdminStats | null = statsQuery.data ?? null
+  const recentBookings = bookingsQuery.data?.bookings ?? []
+  const loading = statsQuery.isLoading || bookingsQuery.isLoading
+  // Cached data is still worth showing when only the background refresh failed
+  const error = !statsQuery.data && (statsQuery.error || bookingsQuery.error)
+    ? 'Failed to load dashboard data'
+    : null
+
+  const fetchDashboardData = () => {
+    statsQuery.refetch()
+    bookingsQuery.refetch()
   }
 
   const formatCurrency = (amount: number) => {
@@ -162,7 +122,7 @@ export default function DashboardStats() {
               <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">Error Loading Data</h3>
               <p className="text-gray-500 mb-4">{error}</p>
-              <Button onClick={fetchDashboardData} variant="outline">
+              <Button onClick={() => fetchDashboardData()} variant="outline">
                 Try Again
               </Button>
             </div>
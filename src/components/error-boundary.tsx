@@ -9,12 +9,26 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { AlertTriangle } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Copy } from "lucide-react";
+import {
+  captureError,
+  isErrorReportingEnabled,
+  reportProblem,
+  type ErrorReport,
+} from "@/lib/error-reporting";
+import { copyRequestId, getLastRequestId } from "@/lib/request-id";
 
 interface ErrorBoundaryState {
   hasError: boolean;
   error?: Error;
   errorInfo?: React.ErrorInfo;
+  // Id of the last API call before the crash, for quoting to support
+  requestId?: string;
+  copied?: boolean;
+  report?: ErrorReport;
+  comment?: string;
+  reportStatus?: "sending" | "sent" | "failed";
 }
 
 interface ErrorBoundaryProps {
@@ -37,11 +51,14 @@ export class ErrorBoundary extends Component<
   }
 
   componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
-    console.error("ErrorBoundary caught an error:", error, errorInfo);
+    // Logs the error and sends the automatic report
+    const report = captureError(error, "boundary", errorInfo.componentStack ?? undefined);
 
     this.setState({
       error,
       errorInfo,
+      requestId: getLastRequestId() ?? undefined,
+      report,
     });
 
     // Call the onError callback if provided
@@ -51,7 +68,29 @@ export class ErrorBoundary extends Component<
   }
 
   handleReset = () => {
-    this.setState({ hasError: false, error: undefined, errorInfo: undefined });
+    this.setState({
+      hasError: false,
+      error: undefined,
+      errorInfo: undefined,
+      requestId: undefined,
+      copied: false,
+      report: undefined,
+      comment: undefined,
+      reportStatus: undefined,
+    });
+  };
+
+  handleReport = async () => {
+    if (!this.state.report) return;
+    this.setState({ reportStatus: "sending" });
+    const sent = await reportProblem(this.state.report, this.state.comment);
+    this.setState({ reportStatus: sent ? "sent" : "failed" });
+  };
+
+  handleCopyRequestId = async () => {
+    if (this.state.requestId && (await copyRequestId(this.state.requestId))) {
+      this.setState({ copied: true });
+    }
   };
 
   render() {
@@ -77,6 +116,22 @@ export class ErrorBoundary extends Component<
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {this.state.requestId && (
+                <div className="flex items-center justify-between gap-2 rounded bg-gray-100 dark:bg-gray-800 p-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-muted-foreground">Request ID</p>
+                    <code className="block truncate">{this.state.requestId}</code>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={this.handleCopyRequestId}
+                  >
+                    <Copy className="h-4 w-4 mr-1" />
+                    {this.state.copied ? "Copied" : "Copy"}
+                  </Button>
+                </div>
+              )}
               {process.env.NODE_ENV === "development" && this.state.error && (
                 <details className="bg-gray-100 dark:bg-gray-800 p-4 rounded text-sm">
                   <summary className="cursor-pointer font-semibold">
@@ -88,6 +143,41 @@ export class ErrorBoundary extends Component<
                   </pre>
                 </details>
               )}
+              {this.state.report && isErrorReportingEnabled() && (
+                <div className="space-y-2">
+                  {this.state.reportStatus === "sent" ? (
+                    <p className="text-sm text-green-600">
+                      Thanks, your report was sent.
+                    </p>
+                  ) : (
+                    <>
+                      <Textarea
+                        placeholder="What were you doing when this happened? (optional)"
+                        value={this.state.comment ?? ""}
+                        onChange={(event) =>
+                          this.setState({ comment: event.target.value })
+                        }
+                        maxLength={1000}
+                      />
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={this.handleReport}
+                        disabled={this.state.reportStatus === "sending"}
+                      >
+                        {this.state.reportStatus === "sending"
+                          ? "Sending..."
+                          : "Report this problem"}
+                      </Button>
+                      {this.state.reportStatus === "failed" && (
+                        <p className="text-sm text-red-600">
+                          The report could not be sent. Please try again.
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
               <div className="flex gap-2">
                 <Button onClick={this.handleReset} className="flex-1">
                   Try Again
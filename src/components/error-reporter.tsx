@@ -0,0 +1,18 @@
+"use client"
+
+import { useEffect } from 'react'
+import { usePathname } from 'next/navigation'
+import { addBreadcrumb, installErrorReporting } from '@/lib/error-reporting'
+
+// Hooks up crash reporting for the whole app; renders nothing
+export function ErrorReporter() {
+  const pathname = usePathname()
+
+  useEffect(() => installErrorReporting(), [])
+
+  useEffect(() => {
+    addBreadcrumb({ type: 'navigation', message: `Navigated to ${pathname}` })
+  }, [pathname])
+
+  return null
+}
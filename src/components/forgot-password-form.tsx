@@ -0,0 +1,156 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { ArrowLeft, MailCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import type { PasswordResetMethod } from "@/lib/api"
+import type { SessionScope } from "@/lib/auth-utils"
+import { showError } from "@/lib/error-handler"
+import { PASSWORD_RESET_FLOWS, RESET_CODE_LENGTH, RESET_LIFETIME_MINUTES } from "@/lib/password-reset"
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+})
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>
+
+interface ForgotPasswordFormProps {
+  audience: SessionScope
+}
+
+export function ForgotPasswordForm({ audience }: ForgotPasswordFormProps) {
+  const flow = PASSWORD_RESET_FLOWS[audience]
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [method, setMethod] = useState<PasswordResetMethod>("link")
+  // Email the instructions were sent to, once the request went through
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  })
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setIsLoading(true)
+    try {
+      const response = await flow.request({ email: data.email, method })
+      if (response.success) {
+        setSentTo(data.email)
+      } else {
+        showError(response)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (sentTo) {
+    return (
+      <Card>
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <MailCheck className="h-10 w-10 text-green-600" />
+          </div>
+          <CardTitle>Check your email</CardTitle>
+          <CardDescription>
+            If an account exists for <span className="font-medium">{sentTo}</span>, we&apos;ve sent{" "}
+            {method === "otp" ? `a ${RESET_CODE_LENGTH}-digit code` : "a link"} to reset your password. It expires
+            in {RESET_LIFETIME_MINUTES} minutes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {method === "otp" && (
+            <Button
+              className="w-full"
+              onClick={() => router.push(`${flow.resetPath}?email=${encodeURIComponent(sentTo)}`)}
+            >
+              Enter code
+            </Button>
+          )}
+          <Button variant="outline" className="w-full" onClick={() => setSentTo(null)}>
+            Send again
+          </Button>
+          <Button asChild variant="ghost" className="w-full">
+            <Link href={flow.loginPath}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to sign in
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Forgot your password?</CardTitle>
+        <CardDescription>
+          Enter the email of your {audience === "admin" ? "admin " : ""}account and we&apos;ll help you reset it
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="Enter your email"
+              autoComplete="email"
+              {...register("email")}
+            />
+            {errors.email && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {errors.email.message}
+              </p>
+            )}
+          </div>
+
+          <RadioGroup
+            value={method}
+            onValueChange={(value) => setMethod(value as PasswordResetMethod)}
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="link" id="method-link" />
+              <Label htmlFor="method-link" className="font-normal">Email me a reset link</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="otp" id="method-otp" />
+              <Label htmlFor="method-otp" className="font-normal">
+                Email me a {RESET_CODE_LENGTH}-digit code
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Sending..." : "Send reset instructions"}
+          </Button>
+
+          <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+            Remembered it?{" "}
+            <Link
+              href={flow.loginPath}
+              className="font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400"
+            >
+              Sign in
+            </Link>
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { ShieldAlert } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { useAdmin } from "@/contexts/admin-context"
+import { ADMIN_ROLE_LABELS, MISSING_ROLE_MESSAGE } from "@/lib/admin-permissions"
+import { cn } from "@/lib/utils"
+
+interface InsufficientPermissionsProps {
+  // What the admin tried to do, e.g. "view payments"
+  action: string
+}
+
+// Shown in place of a section the admin's role does not allow
+export function InsufficientPermissions({ action }: InsufficientPermissionsProps) {
+  const { role, isRoleMissing } = useAdmin()
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center py-10 text-center">
+        <ShieldAlert className="h-10 w-10 text-amber-500 mb-4" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Insufficient permissions</h3>
+        <p className="mt-1 max-w-md text-sm text-gray-600 dark:text-gray-400">
+          {isRoleMissing ? (
+            MISSING_ROLE_MESSAGE
+          ) : (
+            <>
+              {role ? `The ${ADMIN_ROLE_LABELS[role]} role` : "Your role"} can&apos;t {action}. Ask a super
+              admin if you need access.
+            </>
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface PermissionHintProps {
+  allowed: boolean
+  // What the control does, e.g. "refund payments"
+  action: string
+  children: ReactNode
+}
+
+// Explains a control the role does not allow; disabled buttons ignore the pointer, so the wrapper holds the tooltip
+export function PermissionHint({ allowed, action, children }: PermissionHintProps) {
+  if (allowed) return <>{children}</>
+  return (
+    <span className="inline-flex cursor-not-allowed" title={`Your role can't ${action}`}>
+      {children}
+    </span>
+  )
+}
+
+// Banner for an admin whose account came back without a role; nothing is guessed, so every gated action is off
+export function MissingRoleNotice({ className }: { className?: string }) {
+  const { isRoleMissing } = useAdmin()
+  if (!isRoleMissing) return null
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "flex items-center gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-100",
+        className
+      )}
+    >
+      <ShieldAlert className="h-5 w-5 shrink-0 text-amber-500" />
+      <p>{MISSING_ROLE_MESSAGE}</p>
+    </div>
+  )
+}
@@ -15,7 +15,7 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useAuth } from "@/contexts/auth-context";
 import { useAdmin } from "@/contexts/admin-context";
-import { LogOut, Shield, Menu, X, Home, BarChart3 } from "lucide-react";
+import { LogOut, Shield, Menu, X, Home, BarChart3, Settings } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState, memo } from "react";
 
@@ -178,6 +178,15 @@ export const Navbar = memo(function Navbar() {
                       Dashboard
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link
+                      href="/dashboard/settings"
+                      className="flex items-center px-4 py-2"
+                    >
+                      <Settings className="mr-3 h-4 w-4" />
+                      Settings
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem
                     onClick={logout}
@@ -307,6 +316,21 @@ export const Navbar = memo(function Navbar() {
                       <span>Dashboard</span>
                     </Link>
                   )}
+                  {isAuthenticated && (
+                    <Link
+                      href="/dashboard/settings"
+                      className={cn(
+                        "flex items-center space-x-3 px-4 py-3 rounded-lg text-base font-medium transition-all duration-200",
+                        pathname === "/dashboard/settings"
+                          ? "text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20"
+                          : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                      )}
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      <Settings className="h-5 w-5" />
+                      <span>Settings</span>
+                    </Link>
+                  )}
                 </>
               )}
               {isAdminAuthenticated && (
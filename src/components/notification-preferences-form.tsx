@@ -0,0 +1,113 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { useAuth } from "@/contexts/auth-context"
+import { useApiQuery } from "@/hooks/use-api-query"
+import { apiClient, type NotificationPreferences } from "@/lib/api"
+import { showError } from "@/lib/error-handler"
+
+const PREFERENCE_OPTIONS: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  {
+    key: "bookingUpdates",
+    label: "Booking updates",
+    description: "Email me when a booking is confirmed, rescheduled or completed",
+  },
+  {
+    key: "sessionReminders",
+    label: "Session reminders",
+    description: "Email me the day before a consultation",
+  },
+  {
+    key: "smsReminders",
+    label: "SMS reminders",
+    description: "Text me the day before a consultation",
+  },
+  {
+    key: "productNews",
+    label: "News and offers",
+    description: "Occasional emails about new services",
+  },
+]
+
+export function NotificationPreferencesForm() {
+  const { user } = useAuth()
+  const { data, error, isLoading, mutate } = useApiQuery(
+    user ? `notifications:${user.id}` : null,
+    () => apiClient.getNotificationPreferences()
+  )
+  // Edited copy; null until the saved preferences arrive
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const saved = data?.preferences
+  useEffect(() => {
+    if (saved) setDraft(saved)
+  }, [saved])
+
+  useEffect(() => {
+    if (error) showError(error, "Failed to load notification preferences")
+  }, [error])
+
+  const isDirty = Boolean(
+    saved && draft && PREFERENCE_OPTIONS.some(({ key }) => saved[key] !== draft[key])
+  )
+
+  const onSave = async () => {
+    if (!draft) return
+    setIsSaving(true)
+    try {
+      const response = await apiClient.updateNotificationPreferences(draft)
+      if (response.success) {
+        mutate(response.data)
+        toast.success("Notification preferences saved")
+      } else {
+        showError(response, "Failed to save notification preferences")
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Payment receipts and refund updates are always sent to your verified email and phone
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !draft ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            {PREFERENCE_OPTIONS.map(({ key, label, description }) => (
+              <div key={key} className="flex items-start gap-3">
+                <input
+                  id={`notify-${key}`}
+                  type="checkbox"
+                  className="mt-1 h-4 w-4 accent-blue-600"
+                  checked={draft[key]}
+                  onChange={(event) => setDraft({ ...draft, [key]: event.target.checked })}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor={`notify-${key}`}>{label}</Label>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{description}</p>
+                </div>
+              </div>
+            ))}
+            <Button onClick={onSave} disabled={isSaving || !isDirty}>
+              {isSaving ? "Saving..." : "Save preferences"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,36 @@
+"use client"
+
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { Pagination } from "@/lib/api"
+
+interface PageControlsProps {
+  page: number
+  // Missing while the first page loads, or when the backend does not page the list
+  pagination?: Pagination
+  onPageChange: (page: number) => void
+}
+
+// Previous / next buttons under a paged list; hidden when everything fits on one page
+export function PageControls({ page, pagination, onPageChange }: PageControlsProps) {
+  const totalPages = pagination?.totalPages ?? 1
+  if (totalPages <= 1) return null
+
+  return (
+    <div className="flex items-center justify-between pt-4">
+      <p className="text-sm text-gray-600">
+        Page {page} of {totalPages} • {pagination?.total} total
+      </p>
+      <div className="flex space-x-2">
+        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => onPageChange(page - 1)}>
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => onPageChange(page + 1)}>
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  )
+}
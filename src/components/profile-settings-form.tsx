@@ -0,0 +1,136 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useAuth, type User } from "@/contexts/auth-context"
+import { apiClient, type ProfileUpdate } from "@/lib/api"
+import { showError } from "@/lib/error-handler"
+import { phoneSchema } from "@/lib/form-schemas"
+
+const profileSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  email: z.string().trim().email("Invalid email address"),
+  phone: phoneSchema,
+})
+
+type ProfileFormData = z.infer<typeof profileSchema>
+
+const toFormValues = (user: User | null): ProfileFormData => ({
+  name: user?.name ?? "",
+  email: user?.email ?? "",
+  phone: user?.phone ?? "",
+})
+
+const PROFILE_FIELDS = ["name", "email", "phone"] as const
+
+export function ProfileSettingsForm() {
+  const { user, updateUser } = useAuth()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isDirty },
+  } = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: toFormValues(user),
+  })
+
+  // Follow the saved profile as it is refreshed, here or in another tab, but never
+  // over unsaved edits; a different account always starts over
+  const formUserId = useRef(user?.id)
+  useEffect(() => {
+    if (!user) return
+    const isOtherUser = formUserId.current !== user.id
+    formUserId.current = user.id
+    if (isOtherUser || !isDirty) reset(toFormValues(user))
+  }, [user, isDirty, reset])
+
+  const onSubmit = async (data: ProfileFormData) => {
+    if (!user) return
+
+    // Only what changed, so an unchanged email or phone keeps its verification
+    const updates: ProfileUpdate = {}
+    if (data.name !== user.name) updates.name = data.name
+    if (data.email.toLowerCase() !== user.email.toLowerCase()) updates.email = data.email
+    if (data.phone !== (user.phone ?? "")) updates.phone = data.phone
+    if (!Object.keys(updates).length) return
+
+    setIsSaving(true)
+    try {
+      const response = await apiClient.updateProfile(updates)
+      if (response.success) {
+        updateUser(response.data.student)
+        // The edits are saved now, so they become the values the form compares against
+        reset(toFormValues(response.data.student))
+        toast.success(
+          updates.email || updates.phone
+            ? "Profile updated. Please verify your new contact details."
+            : "Profile updated"
+        )
+      } else if (response.code === "CONFLICT") {
+        setError("email", { message: "An account with this email already exists" })
+      } else if (response.code === "VALIDATION_ERROR" && response.details.length) {
+        response.details.forEach(({ field, message }) => {
+          const name = PROFILE_FIELDS.find((item) => item === field)
+          if (name) setError(name, { message })
+        })
+      } else {
+        showError(response, "Failed to update profile")
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>
+          Changing your email or phone number means verifying it again before your next booking
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Full Name</Label>
+            <Input id="name" autoComplete="name" {...register("name")} />
+            {errors.name && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errors.name.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" type="email" autoComplete="email" {...register("email")} />
+            {errors.email && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errors.email.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="phone">Phone</Label>
+            <Input id="phone" type="tel" autoComplete="tel" {...register("phone")} />
+            {errors.phone && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errors.phone.message}</p>
+            )}
+          </div>
+
+          <Button type="submit" disabled={isSaving || !isDirty}>
+            {isSaving ? "Saving..." : "Save changes"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
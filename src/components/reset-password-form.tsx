@@ -0,0 +1,298 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { useForm, type FieldError, type UseFormRegisterReturn } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { toast } from "sonner"
+import { AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { ApiFailure } from "@/lib/api"
+import type { SessionScope } from "@/lib/auth-utils"
+import { showError } from "@/lib/error-handler"
+import { withPasswordConfirmation } from "@/lib/form-schemas"
+import {
+  PASSWORD_RESET_FLOWS,
+  RESET_CODE_LENGTH,
+  RESET_LIFETIME_MINUTES,
+  type PasswordResetFlow,
+} from "@/lib/password-reset"
+
+const linkResetSchema = withPasswordConfirmation({})
+
+const codeResetSchema = withPasswordConfirmation({
+  email: z.string().email("Invalid email address"),
+  otp: z
+    .string()
+    .trim()
+    .regex(new RegExp(`^\\d{${RESET_CODE_LENGTH}}$`), `Enter the ${RESET_CODE_LENGTH}-digit code from the email`),
+})
+
+type LinkResetFormData = z.infer<typeof linkResetSchema>
+type CodeResetFormData = z.infer<typeof codeResetSchema>
+
+interface ResetPasswordFormProps {
+  audience: SessionScope
+}
+
+// A rejected token or code comes back as a validation error on that field
+const isInvalidProof = (failure: ApiFailure) =>
+  failure.code === "VALIDATION_ERROR" &&
+  failure.details.some((detail) => detail.field === "token" || detail.field === "otp")
+
+/**
+ * Sets a new password from a reset link (`?token=`) or, without a token,
+ * from the email and the emailed code (`?email=` prefills the email)
+ */
+export function ResetPasswordForm({ audience }: ResetPasswordFormProps) {
+  const flow = PASSWORD_RESET_FLOWS[audience]
+  const searchParams = useSearchParams()
+  // Read once; the token is then removed from the address bar
+  const [token] = useState(() => searchParams.get("token"))
+  const [email] = useState(() => searchParams.get("email") ?? "")
+
+  return token
+    ? <LinkReset flow={flow} token={token} />
+    : <CodeReset flow={flow} email={email} />
+}
+
+function useCompleteReset(flow: PasswordResetFlow) {
+  const router = useRouter()
+  return () => {
+    toast.success("Password updated. Please sign in with your new password.")
+    router.replace(flow.loginPath)
+  }
+}
+
+function LinkReset({ flow, token }: { flow: PasswordResetFlow; token: string }) {
+  const [status, setStatus] = useState<"checking" | "valid" | "invalid">("checking")
+  const [isLoading, setIsLoading] = useState(false)
+  const completeReset = useCompleteReset(flow)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<LinkResetFormData>({
+    resolver: zodResolver(linkResetSchema),
+  })
+
+  useEffect(() => {
+    // Keep the token out of the history, bookmarks and Referer headers
+    window.history.replaceState(null, "", window.location.pathname)
+
+    let active = true
+    flow.validate({ token }).then((response) => {
+      if (!active) return
+      if (response.success) {
+        setStatus(response.data.valid ? "valid" : "invalid")
+      } else {
+        setStatus("invalid")
+        showError(response)
+      }
+    })
+    return () => {
+      active = false
+    }
+  }, [flow, token])
+
+  const onSubmit = async (data: LinkResetFormData) => {
+    setIsLoading(true)
+    try {
+      const response = await flow.reset({ token, password: data.password })
+      if (response.success) {
+        completeReset()
+      } else if (isInvalidProof(response)) {
+        setStatus("invalid")
+      } else {
+        showError(response)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (status === "checking") {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-10">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (status === "invalid") {
+    return (
+      <Card>
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <AlertTriangle className="h-10 w-10 text-amber-500" />
+          </div>
+          <CardTitle>This reset link has expired</CardTitle>
+          <CardDescription>
+            Reset links work once and for {RESET_LIFETIME_MINUTES} minutes. Request a new one to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild className="w-full">
+            <Link href={flow.forgotPath}>Request a new link</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a new password</CardTitle>
+        <CardDescription>Enter and confirm your new password</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <NewPasswordFields
+            password={register("password")}
+            confirmPassword={register("confirmPassword")}
+            errors={errors}
+          />
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Reset password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+function CodeReset({ flow, email }: { flow: PasswordResetFlow; email: string }) {
+  const [isLoading, setIsLoading] = useState(false)
+  const completeReset = useCompleteReset(flow)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CodeResetFormData>({
+    resolver: zodResolver(codeResetSchema),
+    defaultValues: { email },
+  })
+
+  const onSubmit = async (data: CodeResetFormData) => {
+    setIsLoading(true)
+    try {
+      const response = await flow.reset({ email: data.email, otp: data.otp, password: data.password })
+      if (response.success) {
+        completeReset()
+      } else if (isInvalidProof(response)) {
+        toast.error("That code is incorrect or has expired. Check the email or request a new code.")
+      } else {
+        showError(response)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reset your password</CardTitle>
+        <CardDescription>
+          Enter the {RESET_CODE_LENGTH}-digit code we emailed you and choose a new password
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" type="email" autoComplete="email" {...register("email")} />
+            {errors.email && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errors.email.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="otp">Code</Label>
+            <Input
+              id="otp"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={RESET_CODE_LENGTH}
+              placeholder="123456"
+              {...register("otp")}
+            />
+            {errors.otp && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errors.otp.message}</p>
+            )}
+          </div>
+
+          <NewPasswordFields
+            password={register("password")}
+            confirmPassword={register("confirmPassword")}
+            errors={errors}
+          />
+
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Reset password"}
+          </Button>
+
+          <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+            No code?{" "}
+            <Link
+              href={flow.forgotPath}
+              className="font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400"
+            >
+              Request a new one
+            </Link>
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface NewPasswordFieldsProps {
+  password: UseFormRegisterReturn
+  confirmPassword: UseFormRegisterReturn
+  errors: { password?: FieldError; confirmPassword?: FieldError }
+}
+
+function NewPasswordFields({ password, confirmPassword, errors }: NewPasswordFieldsProps) {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="password">New Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          placeholder="Create a password"
+          {...password}
+        />
+        {errors.password && (
+          <p className="text-sm text-red-600 dark:text-red-400">{errors.password.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          placeholder="Confirm your password"
+          {...confirmPassword}
+        />
+        {errors.confirmPassword && (
+          <p className="text-sm text-red-600 dark:text-red-400">{errors.confirmPassword.message}</p>
+        )}
+      </div>
+    </>
+  )
+}
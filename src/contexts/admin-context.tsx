@@ -2,19 +2,43 @@
 
 import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react'
 import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import {
+  clearSessionCache,
+  clearSessionCookie,
+  ensureSessionCookie,
+  getAdminToken,
+  getSessionExpiredRedirect,
+  getTokenExpiry,
+  isTokenExpired,
+  onSessionExpired,
+} from '@/lib/auth-utils'
+import {
+  hasPermission,
+  isAdminRole,
+  type AdminPermission,
+  type AdminRole,
+} from '@/lib/admin-permissions'
+import { apiClient, type Admin as ContractAdmin } from '@/lib/api'
+import { broadcastTabMessage, onTabMessage } from '@/lib/tab-sync'
+import { useTokenExpiry } from '@/hooks/use-token-expiry'
 
-interface Admin {
-  id: number;
-  name?: string;
-  email: string;
-  createdAt?: string;
-}
+// The contract's admin, except that `role` is absent for admins stored before roles
+// existed or sent by a backend without them; such admins get no permissions (see isRoleMissing)
+type Admin = Omit<ContractAdmin, 'role'> & { role?: AdminRole }
 
 interface AdminContextType {
   admin: Admin | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (token: string, admin: Admin) => void;
+  expiresAt: number | null; // JWT expiry in ms, null for tokens without `exp`
+  role: AdminRole | null;
+  // Signed in, but the stored admin has no known role, so every gated action is refused
+  isRoleMissing: boolean;
+  // Whether the admin's role allows `permission`; false when signed out
+  can: (permission: AdminPermission) => boolean;
+  // Resolves once the session cookie is in place, so admin pages can be opened
+  login: (token: string, admin: Admin) => Promise<void>;
   logout: () => void;
 }
 
@@ -22,12 +46,14 @@ const AdminContext = createContext<AdminContextType | undefined>(undefined)
 
 export function AdminProvider({ children }: { children: ReactNode }) {
   const [admin, setAdmin] = useState<Admin | null>(null)
+  const [token, setToken] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
+  const expiresAt = useMemo(() => getTokenExpiry(token), [token])
 
   useEffect(() => {
     // Check admin authentication status on mount
-    const checkAuth = () => {
+    const checkAuth = async () => {
       if (typeof window !== 'undefined') {
         const adminToken = localStorage.getItem('adminToken')
         const adminData = localStorage.getItem('adminUser')
@@ -36,8 +62,10 @@ export function AdminProvider({ children }: { children: ReactNode }) {
         if (adminToken && adminData && adminToken !== 'null' && adminData !== 'null' && adminData !== 'undefined') {
           try {
             const parsedAdmin = JSON.parse(adminData)
-            if (parsedAdmin && parsedAdmin.email) {
+            // Without the cookie middleware.ts would send admin pages straight back to login
+            if (parsedAdmin && parsedAdmin.email && !isTokenExpired(adminToken) && await ensureSessionCookie('admin', adminToken)) {
               setAdmin(parsedAdmin)
+              setToken(adminToken)
             } else {
               // Invalid admin data, clear storage
               localStorage.removeItem('adminToken')
@@ -62,36 +90,108 @@ export function AdminProvider({ children }: { children: ReactNode }) {
 
     // Ensure we're on the client side before checking auth
     if (typeof window !== 'undefined') {
-      checkAuth()
+      void checkAuth()
     } else {
       setIsLoading(false)
     }
   }, [])
 
-  const login = useCallback((token: string, adminData: Admin) => {
+  useEffect(() => {
+    // Expired or revoked admin token reported by the API clients
+    return onSessionExpired((scope) => {
+      // Only the first 401 of a burst still finds the token in storage
+      if (scope !== 'admin' || !getAdminToken()) return
+
+      clearSessionCache('admin')
+      clearSessionCookie('admin')
+      localStorage.removeItem('adminToken')
+      localStorage.removeItem('adminUser')
+      setAdmin(null)
+      setToken(null)
+      toast.error('Your admin session has expired. Please log in again.', { id: 'admin-session-expired' })
+      broadcastTabMessage({ type: 'session', scope: 'admin', event: 'logout' })
+      router.replace(getSessionExpiredRedirect('admin'))
+    })
+  }, [router])
+
+  useEffect(() => {
+    // Follow admin logins, logouts and token refreshes made in other tabs.
+    // AdminWrapper redirects admin pages once the admin is gone.
+    return onTabMessage((message) => {
+      if (message.type !== 'session' || message.scope !== 'admin') return
+
+      if (message.event === 'logout') {
+        setAdmin(null)
+        setToken(null)
+        return
+      }
+
+      const storedToken = getAdminToken()
+      try {
+        const storedAdmin = JSON.parse(localStorage.getItem('adminUser') || 'null')
+        if (storedToken && storedAdmin?.email && !isTokenExpired(storedToken)) {
+          setAdmin(storedAdmin)
+          setToken(storedToken)
+        }
+      } catch (error) {
+        console.error('Error parsing admin data:', error)
+      }
+    })
+  }, [])
+
+  // Keeps long admin sessions alive without interrupting edits
+  const refreshSession = useCallback(async () => {
+    const response = await apiClient.refreshAdminToken()
+    if (!response.success || !response.data.token) return false
+
+    await ensureSessionCookie('admin', response.data.token)
+    localStorage.setItem('adminToken', response.data.token)
+    setToken(response.data.token)
+    broadcastTabMessage({ type: 'session', scope: 'admin', event: 'refresh' })
+    return true
+  }, [])
+
+  useTokenExpiry(expiresAt, 'admin', refreshSession)
+
+  const login = useCallback(async (newToken: string, adminData: Admin) => {
+    await ensureSessionCookie('admin', newToken)
     if (typeof window !== 'undefined') {
-      localStorage.setItem('adminToken', token)
+      localStorage.setItem('adminToken', newToken)
       localStorage.setItem('adminUser', JSON.stringify(adminData))
     }
     setAdmin(adminData)
+    setToken(newToken)
+    broadcastTabMessage({ type: 'session', scope: 'admin', event: 'login' })
   }, [])
 
   const logout = useCallback(() => {
     if (typeof window !== 'undefined') {
+      clearSessionCache('admin')
+      clearSessionCookie('admin')
       localStorage.removeItem('adminToken')
       localStorage.removeItem('adminUser')
     }
     setAdmin(null)
+    setToken(null)
+    broadcastTabMessage({ type: 'session', scope: 'admin', event: 'logout' })
     router.push("/admin/login")
   }, [router])
 
+  const role = admin && isAdminRole(admin.role) ? admin.role : null
+  const isRoleMissing = admin !== null && role === null
+  const can = useCallback((permission: AdminPermission) => hasPermission(role, permission), [role])
+
   const value = useMemo(() => ({
     admin,
     isAuthenticated: !!admin,
     isLoading,
+    expiresAt,
+    role,
+    isRoleMissing,
+    can,
     login,
     logout,
-  }), [admin, isLoading, login, logout])
+  }), [admin, isLoading, expiresAt, role, isRoleMissing, can, login, logout])
 
   return <AdminContext.Provider value={value}>{children}</AdminContext.Provider>
 }
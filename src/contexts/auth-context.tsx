@@ -2,20 +2,42 @@
 
 import { createContext, useContext, useEffect, useState, ReactNode, useCallback, useMemo } from "react"
 import { useRouter } from "next/navigation"
-import { logout as logoutUtil } from "@/lib/auth-utils"
+import { toast } from "sonner"
+import {
+  clearSessionCache,
+  clearSessionCookie,
+  ensureSessionCookie,
+  getSessionExpiredRedirect,
+  getToken,
+  getTokenExpiry,
+  isTokenExpired,
+  logout as logoutUtil,
+  onSessionExpired,
+} from "@/lib/auth-utils"
+import { apiClient, type Student } from "@/lib/api"
+import { broadcastTabMessage, onTabMessage } from "@/lib/tab-sync"
+import { useTokenExpiry } from "@/hooks/use-token-expiry"
 
-export interface User {
-  id: number
-  name: string
-  email: string
-  phone?: string
-}
+// The contract's student as kept in the session. Sessions stored before phone numbers
+// and verification existed lack those fields; a missing flag counts as not verified.
+export type User = Pick<Student, "id" | "name" | "email"> &
+  Partial<Pick<Student, "phone" | "emailVerified" | "phoneVerified">>
 
 interface AuthContextType {
   user: User | null
   isAuthenticated: boolean
   isLoading: boolean
-  login: (token: string, user: User) => void
+  expiresAt: number | null // JWT expiry in ms, null for tokens without `exp`
+  // Both must be verified before checkout, since receipts and refunds go to them
+  isEmailVerified: boolean
+  isPhoneVerified: boolean
+  isContactVerified: boolean
+  // Resolves once the session cookie is in place, so protected pages can be opened
+  login: (token: string, user: User) => Promise<void>
+  // Replaces the stored user after a profile change, keeping the session
+  updateUser: (user: User) => void
+  // Reloads the user from the backend; resolves to whether that worked
+  refreshUser: () => Promise<boolean>
   logout: () => void
 }
 
@@ -23,12 +45,14 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [token, setToken] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
+  const expiresAt = useMemo(() => getTokenExpiry(token), [token])
 
   useEffect(() => {
     // Check authentication status on mount
-    const checkAuth = () => {
+    const checkAuth = async () => {
       if (typeof window !== 'undefined') {
         const token = localStorage.getItem('token')
         const userData = localStorage.getItem('user')
@@ -36,8 +60,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         if (token && userData && token !== 'null' && userData !== 'null' && userData !== 'undefined') {
           try {
             const parsedUser = JSON.parse(userData)
-            if (parsedUser && parsedUser.email) {
+            // middleware.ts only lets protected pages through with the cookie, so a
+            // stored session without one would bounce between it and AuthWrapper
+            if (parsedUser && parsedUser.email && !isTokenExpired(token) && await ensureSessionCookie('student', token)) {
               setUser(parsedUser)
+              setToken(token)
             } else {
               localStorage.removeItem('token')
               localStorage.removeItem('user')
@@ -57,36 +84,128 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     // Ensure we're on the client side before checking auth
     if (typeof window !== 'undefined') {
-      checkAuth()
+      void checkAuth()
     } else {
       setIsLoading(false)
     }
   }, [])
 
-  const login = useCallback((token: string, userData: User) => {
+  useEffect(() => {
+    // Expired or revoked student token reported by ApiClient
+    return onSessionExpired((scope) => {
+      // Only the first 401 of a burst still finds the token in storage
+      if (scope !== 'student' || !getToken()) return
+
+      clearSessionCache('student')
+      clearSessionCookie('student')
+      localStorage.removeItem('token')
+      localStorage.removeItem('user')
+      setUser(null)
+      setToken(null)
+      toast.error("Your session has expired. Please log in again.", { id: "session-expired" })
+      broadcastTabMessage({ type: 'session', scope: 'student', event: 'logout' })
+      router.replace(getSessionExpiredRedirect('student'))
+    })
+  }, [router])
+
+  useEffect(() => {
+    // Follow logins, logouts and token refreshes made in other tabs.
+    // AuthWrapper redirects protected pages once the user is gone.
+    return onTabMessage((message) => {
+      if (message.type !== 'session' || message.scope !== 'student') return
+
+      if (message.event === 'logout') {
+        setUser(null)
+        setToken(null)
+        return
+      }
+
+      const storedToken = getToken()
+      try {
+        const storedUser = JSON.parse(localStorage.getItem('user') || 'null')
+        if (storedToken && storedUser?.email && !isTokenExpired(storedToken)) {
+          setUser(storedUser)
+          setToken(storedToken)
+        }
+      } catch (error) {
+        console.error('Error parsing user data:', error)
+      }
+    })
+  }, [])
+
+  const refreshSession = useCallback(async () => {
+    const response = await apiClient.refreshToken()
+    if (!response.success || !response.data.token) return false
+
+    await ensureSessionCookie('student', response.data.token)
+    localStorage.setItem('token', response.data.token)
+    setToken(response.data.token)
+    broadcastTabMessage({ type: 'session', scope: 'student', event: 'refresh' })
+    return true
+  }, [])
+
+  useTokenExpiry(expiresAt, 'student', refreshSession)
+
+  const login = useCallback(async (newToken: string, userData: User) => {
+    await ensureSessionCookie('student', newToken)
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('token', newToken)
+      localStorage.setItem('user', JSON.stringify(userData))
+    }
+    setUser(userData)
+    setToken(newToken)
+    broadcastTabMessage({ type: 'session', scope: 'student', event: 'login' })
+  }, [])
+
+  const updateUser = useCallback((userData: User) => {
     if (typeof window !== 'undefined') {
-      localStorage.setItem('token', token)
       localStorage.setItem('user', JSON.stringify(userData))
     }
     setUser(userData)
+    broadcastTabMessage({ type: 'session', scope: 'student', event: 'refresh' })
   }, [])
 
+  const refreshUser = useCallback(async () => {
+    const response = await apiClient.getProfile()
+    if (response.success) updateUser(response.data.student)
+    return response.success
+  }, [updateUser])
+
+  const userId = user?.id
+  useEffect(() => {
+    // The stored copy can be stale, e.g. after changes made on another device
+    if (userId !== undefined) void refreshUser()
+  }, [userId, refreshUser])
+
   const logout = useCallback(() => {
     if (typeof window !== 'undefined') {
+      clearSessionCache('student')
       localStorage.removeItem('token')
       localStorage.removeItem('user')
     }
     setUser(null)
+    setToken(null)
+    broadcastTabMessage({ type: 'session', scope: 'student', event: 'logout' })
     logoutUtil(router)
   }, [router])
 
-  const value = useMemo(() => ({
-    user,
-    isAuthenticated: !!user,
-    isLoading,
-    login,
-    logout
-  }), [user, isLoading, login, logout])
+  const value = useMemo(() => {
+    const isEmailVerified = user?.emailVerified === true
+    const isPhoneVerified = user?.phoneVerified === true
+    return {
+      user,
+      isAuthenticated: !!user,
+      isLoading,
+      expiresAt,
+      isEmailVerified,
+      isPhoneVerified,
+      isContactVerified: isEmailVerified && isPhoneVerified,
+      login,
+      updateUser,
+      refreshUser,
+      logout
+    }
+  }, [user, isLoading, expiresAt, login, updateUser, refreshUser, logout])
 
   return (
     <AuthContext.Provider value={value}>
@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import type { ApiFailure, ApiResponse } from "@/lib/api";
+import { failureFromException } from "@/lib/api-errors";
+import { clientCache, CACHE_TTL } from "@/lib/cache";
+
+// Query data lives in clientCache under its own prefix so it never collides
+// with the ApiResponse objects stored by the request cache middleware
+const QUERY_KEY_PREFIX = "query:";
+
+// Skip revalidation when the cached data is younger than this
+const MOUNT_DEDUPE_MS = 2000;
+const FOCUS_THROTTLE_MS = 5000;
+
+export interface UseApiQueryOptions {
+  // How long fetched data stays in clientCache
+  ttl?: number;
+  // Cache tags (see CACHE_TAGS); mutations that invalidate one of them trigger a refetch
+  tags?: string[];
+  // Set to false to wait, e.g. until the user is known
+  enabled?: boolean;
+  revalidateOnFocus?: boolean;
+  revalidateOnReconnect?: boolean;
+  // Keep returning the previous key's data while a new key loads, e.g. when filters change
+  keepPreviousData?: boolean;
+}
+
+export interface UseApiQueryResult<T> {
+  data: T | undefined;
+  error: ApiFailure | null;
+  // True until the first response arrives for a key with no cached data
+  isLoading: boolean;
+  // True whenever a request for the key is in flight, including background revalidation
+  isValidating: boolean;
+  refetch: () => Promise<void>;
+  // Replaces the cached data, e.g. after a mutation returned the updated record
+  mutate: (data: T) => void;
+}
+
+// Requests shared by every component that uses the same key
+const inFlight = new Map<string, Promise<ApiResponse<unknown>>>();
+
+const noopUnsubscribe = () => {};
+
+/**
+ * Stale-while-revalidate data fetching on top of clientCache. Cached data is
+ * returned immediately and refreshed in the background on mount, window focus
+ * and reconnect; every component using the same key re-renders with the result.
+ */
+export function useApiQuery<T>(
+  key: string | null,
+  fetcher: () => Promise<ApiResponse<T>>,
+  options: UseApiQueryOptions = {}
+): UseApiQueryResult<T> {
+  const {
+    ttl = CACHE_TTL.SHORT,
+    tags,
+    enabled = true,
+    revalidateOnFocus = true,
+    revalidateOnReconnect = true,
+    keepPreviousData = false,
+  } = options;
+  const cacheKey = key !== null && enabled ? `${QUERY_KEY_PREFIX}${key}` : null;
+
+  const subscribe = useCallback(
+    (onChange: () => void) =>
+      cacheKey ? clientCache.subscribe(cacheKey, onChange) : noopUnsubscribe,
+    [cacheKey]
+  );
+  const entry = useSyncExternalStore(
+    subscribe,
+    () => (cacheKey ? clientCache.peek<T>(cacheKey) : null),
+    () => null
+  );
+
+  const previousDataRef = useRef<T | undefined>(undefined);
+  useEffect(() => {
+    if (entry) previousDataRef.current = entry.data;
+  }, [entry]);
+
+  const [error, setError] = useState<ApiFailure | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+
+  // Callers usually pass an inline fetcher; keep the latest without re-running effects
+  const fetcherRef = useRef(fetcher);
+  const ttlRef = useRef(ttl);
+  const tagsRef = useRef(tags);
+  const activeKeyRef = useRef(cacheKey);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+    ttlRef.current = ttl;
+    tagsRef.current = tags;
+    activeKeyRef.current = cacheKey;
+  });
+
+  const revalidate = useCallback(
+    async (maxAgeMs = 0) => {
+      if (!cacheKey) return;
+
+      const cached = clientCache.peek<T>(cacheKey);
+      if (cached && !cached.invalidated && Date.now() - cached.timestamp < maxAgeMs) return;
+
+      let request = inFlight.get(cacheKey) as Promise<ApiResponse<T>> | undefined;
+      if (!request) {
+        request = fetcherRef
+          .current()
+          .catch((err: unknown) => failureFromException(err))
+          .then((result) => {
+            if (result.success) {
+              clientCache.set(cacheKey, result.data, ttlRef.current, tagsRef.current);
+            }
+            return result;
+          });
+        const created = request;
+        const release = () => {
+          if (inFlight.get(cacheKey) === created) inFlight.delete(cacheKey);
+        };
+        created.then(release, release);
+        inFlight.set(cacheKey, created);
+      }
+
+      setIsValidating(true);
+      const result = await request;
+      // The key changed while this request was in flight; the key change already reset isValidating
+      if (activeKeyRef.current !== cacheKey) return;
+      setIsValidating(false);
+
+      if (result.success) {
+        setError(null);
+      } else if (result.code !== "ABORTED") {
+        setError(result);
+      }
+    },
+    [cacheKey]
+  );
+
+  // Fetch on mount and whenever the key changes or its entry is removed or invalidated
+  const hasEntry = entry !== null;
+  const isInvalidated = entry?.invalidated === true;
+  useEffect(() => {
+    setError(null);
+    // A request left over from the previous key returns without touching state, so clear its spinner here
+    setIsValidating(false);
+    revalidate(hasEntry ? MOUNT_DEDUPE_MS : 0);
+  }, [revalidate, hasEntry, isInvalidated]);
+
+  useEffect(() => {
+    if (!cacheKey || (!revalidateOnFocus && !revalidateOnReconnect)) return;
+
+    const onFocus = () => {
+      if (document.visibilityState === "visible") revalidate(FOCUS_THROTTLE_MS);
+    };
+    const onOnline = () => revalidate();
+
+    if (revalidateOnFocus) {
+      window.addEventListener("focus", onFocus);
+      document.addEventListener("visibilitychange", onFocus);
+    }
+    if (revalidateOnReconnect) {
+      window.addEventListener("online", onOnline);
+    }
+
+    return () => {
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("visibilitychange", onFocus);
+      window.removeEventListener("online", onOnline);
+    };
+  }, [cacheKey, revalidate, revalidateOnFocus, revalidateOnReconnect]);
+
+  const refetch = useCallback(() => revalidate(), [revalidate]);
+
+  const mutate = useCallback(
+    (data: T) => {
+      if (cacheKey) clientCache.set(cacheKey, data, ttlRef.current, tagsRef.current);
+    },
+    [cacheKey]
+  );
+
+  return {
+    data: entry ? entry.data : keepPreviousData ? previousDataRef.current : undefined,
+    error,
+    isLoading: cacheKey !== null && entry === null && error === null,
+    isValidating,
+    refetch,
+    mutate,
+  };
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { notifySessionExpired, type SessionScope } from "@/lib/auth-utils";
+
+// Try a silent refresh (or warn the user) this long before the token expires
+export const TOKEN_REFRESH_LEAD_MS = 5 * 60 * 1000;
+
+// setTimeout fires immediately for delays above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMEOUT_MS = 2147483647;
+
+/**
+ * Schedules a silent refresh shortly before `expiresAt`, warns the user when
+ * the refresh is not possible, and ends the session once the token expires.
+ */
+export const useTokenExpiry = (
+  expiresAt: number | null,
+  scope: SessionScope,
+  refresh: () => Promise<boolean>
+) => {
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const now = Date.now();
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const schedule = (at: number, callback: () => void) => {
+      const delay = Math.max(0, at - now);
+      if (delay <= MAX_TIMEOUT_MS) {
+        timers.push(setTimeout(callback, delay));
+      }
+    };
+
+    schedule(expiresAt - TOKEN_REFRESH_LEAD_MS, async () => {
+      const refreshed = await refresh();
+      if (refreshed) return;
+
+      const minutesLeft = Math.max(1, Math.round((expiresAt - Date.now()) / 60000));
+      toast.warning(
+        `Your session expires in ${minutesLeft} minute${minutesLeft === 1 ? "" : "s"}`,
+        {
+          id: `${scope}-session-expiring`,
+          description: "Save your work and log in again to continue.",
+          duration: 10000,
+        }
+      );
+    });
+
+    schedule(expiresAt, () => notifySessionExpired(scope));
+
+    return () => timers.forEach(clearTimeout);
+  }, [expiresAt, scope, refresh]);
+};
@@ -3,169 +3,93 @@
  * Dedicated client for admin-specific operations
  */
 
-import { logger } from './logger'
-
-// Admin-specific interfaces
-export interface AdminStats {
-  totalBookings: number;
-  pendingBookings: number;
-  successBookings: number;
-  completedBookings: number;
-  totalRevenue: number;
-  monthlyBookings: number;
-}
+import { apiTransport, type ApiResponse, type RequestOptions } from './api'
+import type { Booking, OperationBody, OperationResponse } from './api-contract'
+import type { ApiTransport } from './api-transport'
+import { adminStatsSchema } from './api-schemas'
+import { CACHE_TAGS } from './cache'
 
-export interface AdminBooking {
-  id: number;
-  studentId: number;
-  consultantType: string;
-  status: string;
-  amount: number;
-  paymentStatus: string;
-  createdAt: string;
-  student: {
-    name: string;
-    email: string;
-    phone: string;
-  };
-}
+export type { AdminStats } from './api-contract'
 
-export interface AdminApiResponse<T = unknown> {
-  success: boolean;
-  data?: T;
-  message?: string;
-  error?: string;
-  details?: string[];
-}
+// Admin endpoints return the contract's Booking with `student` included
+export type AdminBooking = Booking;
 
-class AdminApiClient {
-  private baseURL: string;
+// Admin responses share the code-based error model of ApiClient
+export type AdminApiResponse<T = unknown> = ApiResponse<T>;
 
-  constructor(baseURL: string) {
-    this.baseURL = baseURL;
-  }
+class AdminApiClient {
+  private transport: ApiTransport;
 
-  private getAdminToken(): string | null {
-    if (typeof window === 'undefined') return null;
-    try {
-      return localStorage.getItem('adminToken');
-    } catch {
-      return null;
-    }
+  constructor(transport: ApiTransport) {
+    this.transport = transport;
   }
 
+  // Same middleware chain as ApiClient; every admin call needs the admin token
   private async request<T = unknown>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {}
   ): Promise<AdminApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`;
-    const token = this.getAdminToken();
-
-    if (!token) {
-      logger.error('No admin token available');
-      return {
-        success: false,
-        error: 'Authentication required'
-      };
-    }
-
-    const config: RequestInit = {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-        ...options.headers,
-      },
-      mode: 'cors',
-      credentials: 'omit',
-      ...options,
-    };
-
-    try {
-      logger.debug(`Admin API: ${options.method || 'GET'} ${endpoint}`);
-      
-      const response = await fetch(url, config);
-      const data = await response.json();
-
-      if (response.ok) {
-        logger.debug(`Admin API Response: ${response.status}`, data);
-        return {
-          success: true,
-          data: data.data || data,
-          message: data.message
-        };
-      } else {
-        logger.error(`Admin API Error: ${response.status}`, data);
-        return {
-          success: false,
-          error: data.message || data.error || `Request failed with status ${response.status}`,
-          details: data.details || []
-        };
-      }
-    } catch (error) {
-      logger.error('Admin API Network Error', error);
-      return {
-        success: false,
-        error: 'Network error occurred'
-      };
-    }
+    return this.transport.request<T>(endpoint, { requireToken: true, ...options }, 'admin');
   }
 
   // Admin authentication
-  async login(credentials: { 
-    email: string; 
-    password: string; 
-  }): Promise<AdminApiResponse<{ admin: Record<string, unknown>; token: string }>> {
+  async login(
+    credentials: OperationBody<'POST /admin/login'>
+  ): Promise<AdminApiResponse<OperationResponse<'POST /admin/login'>>> {
     return this.request('/admin/login', {
       method: 'POST',
       body: JSON.stringify(credentials),
+      requireToken: false,
+      skipSessionExpiry: true,
     });
   }
 
-  // Dashboard stats
-  async getDashboardStats(): Promise<AdminApiResponse<AdminStats>> {
-    return this.request('/admin/dashboard/stats');
+  // Dashboard stats; no permission, the summary is open to every admin role
+  async getDashboardStats(): Promise<AdminApiResponse<OperationResponse<'GET /admin/dashboard/stats'>>> {
+    return this.request('/admin/dashboard/stats', { responseSchema: adminStatsSchema });
   }
 
   // Booking management
-  async getAllBookings(): Promise<AdminApiResponse<{ bookings: AdminBooking[] }>> {
-    return this.request('/admin/bookings');
+  async getAllBookings(): Promise<AdminApiResponse<OperationResponse<'GET /admin/bookings'>>> {
+    return this.request('/admin/bookings', { permission: 'bookings:view' });
   }
 
   async updateBookingStatus(
     bookingId: number, 
-    status: string
-  ): Promise<AdminApiResponse<{ booking: AdminBooking }>> {
+    status: OperationBody<'PUT /admin/bookings/{id}/status'>['status']
+  ): Promise<AdminApiResponse<OperationResponse<'PUT /admin/bookings/{id}/status'>>> {
     return this.request(`/admin/bookings/${bookingId}/status`, {
       method: 'PUT',
+      permission: 'bookings:update',
       body: JSON.stringify({ status }),
+      invalidates: [CACHE_TAGS.booking(bookingId), CACHE_TAGS.BOOKINGS, CACHE_TAGS.ADMIN_STATS],
     });
   }
 
   // Student management
-  async getAllStudents(): Promise<AdminApiResponse<{ students: Record<string, unknown>[] }>> {
-    return this.request('/admin/students');
+  async getAllStudents(): Promise<AdminApiResponse<OperationResponse<'GET /admin/students'>>> {
+    return this.request('/admin/students', { permission: 'users:view' });
   }
 
   // Payments management  
-  async getAllPayments(): Promise<AdminApiResponse<{ payments: Record<string, unknown>[] }>> {
-    return this.request('/admin/payments');
+  async getAllPayments(): Promise<AdminApiResponse<OperationResponse<'GET /admin/payments'>>> {
+    return this.request('/admin/payments', { permission: 'payments:view' });
   }
 
   // Revenue analytics
-  async getRevenueStats(): Promise<AdminApiResponse<Record<string, unknown>>> {
-    return this.request('/admin/revenue/stats');
+  async getRevenueStats(): Promise<AdminApiResponse<OperationResponse<'GET /admin/revenue/stats'>>> {
+    return this.request('/admin/revenue/stats', { permission: 'analytics:view' });
   }
 
-  async getRevenueBreakdown(): Promise<AdminApiResponse<Record<string, unknown>>> {
-    return this.request('/admin/revenue/breakdown');
+  async getRevenueBreakdown(): Promise<AdminApiResponse<OperationResponse<'GET /admin/revenue/breakdown'>>> {
+    return this.request('/admin/revenue/breakdown', { permission: 'analytics:view' });
   }
 
-  // Health check
-  async healthCheck(): Promise<AdminApiResponse<{ status: string }>> {
+  // Health check; open to every admin role
+  async healthCheck(): Promise<AdminApiResponse<OperationResponse<'GET /admin/health'>>> {
     return this.request('/admin/health');
   }
 }
 
 // Export singleton instance
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://carrierhub-backend.onrender.com/api';
-export const adminApiClient = new AdminApiClient(API_BASE_URL);
+export const adminApiClient = new AdminApiClient(apiTransport);
@@ -0,0 +1,91 @@
+/**
+ * Admin Permissions
+ * What each admin role may do. ApiClient refuses calls the stored role lacks
+ * (see permissionMiddleware) and the admin pages hide or disable the matching
+ * tabs and buttons. The backend enforces the same map; this only keeps the UI
+ * from offering actions that would fail.
+ */
+
+import { ADMIN_ROLE_VALUES, type AdminRole } from './api-contract'
+
+export type { AdminRole } from './api-contract'
+
+export type AdminPermission =
+  | 'bookings:view'
+  | 'bookings:update'
+  | 'bookings:delete'
+  | 'bookings:export'
+  | 'users:view'
+  | 'users:update'
+  | 'users:delete'
+  | 'users:notify'
+  | 'payments:view'
+  | 'payments:refund'
+  | 'analytics:view'
+  | 'settings:view'
+  | 'settings:update'
+  | 'backup:download'
+  | 'backup:restore'
+
+const ALL_PERMISSIONS: readonly AdminPermission[] = [
+  'bookings:view',
+  'bookings:update',
+  'bookings:delete',
+  'bookings:export',
+  'users:view',
+  'users:update',
+  'users:delete',
+  'users:notify',
+  'payments:view',
+  'payments:refund',
+  'analytics:view',
+  'settings:view',
+  'settings:update',
+  'backup:download',
+  'backup:restore',
+]
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  'super-admin': ALL_PERMISSIONS,
+  // Runs the consultations: bookings and student accounts, nothing that moves money
+  operations: [
+    'bookings:view',
+    'bookings:update',
+    'bookings:delete',
+    'bookings:export',
+    'users:view',
+    'users:update',
+    'users:notify',
+    'payments:view',
+    'analytics:view',
+    'settings:view',
+  ],
+  finance: [
+    'bookings:view',
+    'bookings:export',
+    'payments:view',
+    'payments:refund',
+    'analytics:view',
+  ],
+  // Answers students; read-only apart from sending them notifications
+  support: ['bookings:view', 'users:view', 'users:notify', 'payments:view'],
+}
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  'super-admin': 'Super admin',
+  operations: 'Operations',
+  finance: 'Finance',
+  support: 'Support',
+}
+
+// Admins saved before roles existed, or sent by a backend without them, have no role
+// rather than a guessed one: every gated action is refused with this message
+export const MISSING_ROLE_MESSAGE =
+  'Your admin account has no role. Sign in again, or ask a super admin to assign one.'
+
+export const isAdminRole = (value: unknown): value is AdminRole =>
+  ADMIN_ROLE_VALUES.includes(value as AdminRole)
+
+export function hasPermission(role: AdminRole | null | undefined, permission: AdminPermission): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false
+}
@@ -0,0 +1,27 @@
+/**
+ * API Contract Drift Check
+ * Compile-time assertions that the types still written by hand match
+ * contract/openapi.json. A mismatch fails `tsc` (and `npm run api:check`)
+ * with an error on the line of the diverging type.
+ */
+
+import type { Admin, OperationBody, Student, SystemSettings } from './api-contract'
+import type { MockAdmin, MockSettings, MockStudent } from './mock-fixtures'
+import type { RazorpayResponse } from './payment-utils'
+
+// Compares object types by their properties rather than how they were declared
+type Flatten<T> = { [K in keyof T]: T[K] }
+
+// True only when A and B have the same properties, optional and readonly modifiers included
+type Equal<A, B> =
+  (<T>() => T extends Flatten<A> ? 1 : 2) extends (<T>() => T extends Flatten<B> ? 1 : 2) ? true : false
+type Expect<T extends true> = T
+
+export type ContractChecks = [
+  // Razorpay's checkout response is forwarded to /payments/verify as is
+  Expect<Equal<RazorpayResponse & { bookingId: number }, OperationBody<'POST /payments/verify'>>>,
+  // Mock backend records are the contract entities plus server-side fields
+  Expect<Equal<Omit<MockStudent, 'password' | 'isActive'>, Student>>,
+  Expect<Equal<Omit<MockAdmin, 'password' | 'createdAt'>, Admin>>,
+  Expect<Equal<MockSettings, SystemSettings>>,
+]
@@ -0,0 +1,929 @@
+// Generated by scripts/generate-api-types.mjs from contract/openapi.json - do not edit.
+// Change the contract and run `npm run api:generate` instead.
+
+// CarrierHub API 1.0.0
+
+// Prisma enum ConsultantType
+export const CONSULTANT_TYPE_VALUES = [
+  'CAREER_GUIDANCE',
+  'COLLEGE_COURSE',
+  'EXAM_PREPARATION',
+  'STUDY_ABROAD',
+  'SKILL_MENTORSHIP',
+  'JOB_PLACEMENT',
+  'GOVERNMENT_JOBS',
+  'PERSONAL_GROWTH',
+  'ALTERNATIVE_CAREERS',
+] as const
+export type ConsultantType = (typeof CONSULTANT_TYPE_VALUES)[number]
+
+// Prisma enum BookingStatus, also used for payments
+export const BOOKING_STATUS_VALUES = [
+  'PENDING',
+  'PROCESSING',
+  'SUCCESS',
+  'FAILED',
+  'COMPLETED',
+] as const
+export type BookingStatus = (typeof BOOKING_STATUS_VALUES)[number]
+
+export interface Student {
+  id: number
+  name: string
+  email: string
+  phone: string
+  emailVerified: boolean // Set once the student confirms the email link or code
+  phoneVerified: boolean // Set once the student confirms the SMS code
+  createdAt: string
+  updatedAt: string
+}
+
+// What an admin may do; see ROLE_PERMISSIONS in src/lib/admin-permissions.ts
+export const ADMIN_ROLE_VALUES = [
+  'super-admin',
+  'operations',
+  'finance',
+  'support',
+] as const
+export type AdminRole = (typeof ADMIN_ROLE_VALUES)[number]
+
+export interface Admin {
+  id: number
+  name: string
+  email: string
+  role: AdminRole
+}
+
+export interface Payment {
+  id: number
+  bookingId: number
+  razorpayPaymentId: string
+  razorpayOrderId: string
+  razorpaySignature: string
+  amount: number // in paise
+  currency: string
+  status: BookingStatus
+  createdAt: string
+}
+
+export interface Booking {
+  id: number
+  studentId: number
+  consultantType: ConsultantType
+  details: string
+  amount: number // in paise
+  currency: string
+  status: BookingStatus
+  razorpayOrderId?: string
+  payment?: Payment
+  student?: Student // Included by admin and list endpoints
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Category {
+  type: ConsultantType
+  title: string
+  description: string
+}
+
+export interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+export interface PaymentOrder {
+  orderId: string
+  amount: number // in paise
+  currency: string
+  keyId: string // Razorpay key id for checkout
+}
+
+export interface AdminStats {
+  totalBookings: number
+  pendingBookings: number
+  successBookings: number
+  completedBookings: number
+  totalRevenue: number // in paise
+  monthlyBookings: number
+}
+
+export interface RevenueAnalytics {
+  totalRevenue: number
+  periodRevenue: number
+  growth: number // percent
+  chartData: {
+    date: string
+    revenue: number
+  }[]
+}
+
+export interface BookingAnalytics {
+  totalBookings: number
+  periodBookings: number
+  growth: number // percent
+  chartData: {
+    date: string
+    bookings: number
+  }[]
+  categoryBreakdown: {
+    type: ConsultantType
+    count: number
+    percentage: number
+  }[]
+}
+
+export interface UserAnalytics {
+  totalUsers: number
+  newUsers: number
+  activeUsers: number
+  userGrowth: number // percent
+  chartData: {
+    date: string
+    users: number
+  }[]
+}
+
+export interface SystemSettings {
+  siteName: string
+  siteDescription: string
+  contactEmail: string
+  contactPhone: string
+  socialLinks: Record<string, string>
+  maintenanceMode: boolean
+  registrationEnabled: boolean
+}
+
+export interface Message {
+  message: string
+}
+
+export interface Token {
+  token: string
+}
+
+// How the reset is delivered: an emailed link with a token, or an emailed one-time code
+export const PASSWORD_RESET_METHOD_VALUES = [
+  'link',
+  'otp',
+] as const
+export type PasswordResetMethod = (typeof PASSWORD_RESET_METHOD_VALUES)[number]
+
+// Either the token from the reset link, or the email with the emailed code
+export interface PasswordResetProof {
+  token?: string
+  email?: string
+  otp?: string
+}
+
+// PasswordResetProof plus the new password
+export interface PasswordReset {
+  token?: string
+  email?: string
+  otp?: string
+  password: string
+}
+
+export interface PasswordResetValidation {
+  valid: boolean
+  expiresAt?: string
+}
+
+// How the email is verified: a link with a token, or a one-time code
+export const EMAIL_VERIFICATION_METHOD_VALUES = [
+  'link',
+  'otp',
+] as const
+export type EmailVerificationMethod = (typeof EMAIL_VERIFICATION_METHOD_VALUES)[number]
+
+// Either the token from the verification link, or the emailed code
+export interface EmailVerification {
+  token?: string
+  otp?: string
+}
+
+// Fields to change; a new email or phone has to be verified again
+export interface ProfileUpdate {
+  name?: string
+  email?: string
+  phone?: string
+}
+
+export interface PasswordChange {
+  currentPassword: string
+  newPassword: string
+}
+
+// Optional messages; payment receipts and refunds are always sent
+export interface NotificationPreferences {
+  bookingUpdates: boolean // Email when a booking changes status
+  sessionReminders: boolean // Email the day before a consultation
+  smsReminders: boolean // Text the day before a consultation
+  productNews: boolean // Occasional emails about new services
+}
+
+// A signed-in device
+export interface AccountSession {
+  id: string
+  userAgent?: string
+  ipAddress?: string
+  createdAt: string
+  lastActiveAt: string
+  current: boolean // The session making the request
+}
+
+// Every endpoint, keyed by 'METHOD /path'. `response` is the `data` of a successful response.
+export interface ApiOperations {
+  // Register a student
+  'POST /auth/register': {
+    operationId: 'signup'
+    path: never
+    query: never
+    body: {
+      name: string
+      email: string
+      phone: string
+      password: string
+    }
+    response: {
+      student: Student
+      token: string
+    }
+  }
+
+  // Student login
+  'POST /auth/login': {
+    operationId: 'login'
+    path: never
+    query: never
+    body: {
+      email: string
+      password: string
+    }
+    response: {
+      student: Student
+      token: string
+    }
+  }
+
+  // Exchange a valid student token for a fresh one
+  'POST /auth/refresh': {
+    operationId: 'refreshToken'
+    path: never
+    query: never
+    body: never
+    response: Token
+  }
+
+  // Logged-in student
+  'GET /auth/me': {
+    operationId: 'getProfile'
+    path: never
+    query: never
+    body: never
+    response: {
+      student: Student
+    }
+  }
+
+  // Update the logged-in student's name, email or phone
+  'PATCH /auth/me': {
+    operationId: 'updateProfile'
+    path: never
+    query: never
+    body: ProfileUpdate
+    response: {
+      student: Student
+    }
+  }
+
+  // Change the password; other sessions are signed out
+  'POST /auth/change-password': {
+    operationId: 'changePassword'
+    path: never
+    query: never
+    body: PasswordChange
+    response: Message
+  }
+
+  // Notification preferences of the logged-in student
+  'GET /auth/me/notifications': {
+    operationId: 'getNotificationPreferences'
+    path: never
+    query: never
+    body: never
+    response: {
+      preferences: NotificationPreferences
+    }
+  }
+
+  // Replace the notification preferences
+  'PUT /auth/me/notifications': {
+    operationId: 'updateNotificationPreferences'
+    path: never
+    query: never
+    body: NotificationPreferences
+    response: {
+      preferences: NotificationPreferences
+    }
+  }
+
+  // Devices signed in to the student's account
+  'GET /auth/sessions': {
+    operationId: 'listSessions'
+    path: never
+    query: never
+    body: never
+    response: {
+      sessions: AccountSession[]
+    }
+  }
+
+  // Sign out every session except the current one
+  'POST /auth/sessions/revoke-others': {
+    operationId: 'revokeOtherSessions'
+    path: never
+    query: never
+    body: never
+    response: Message
+  }
+
+  // Sign out one session
+  'DELETE /auth/sessions/{id}': {
+    operationId: 'revokeSession'
+    path: {
+      id: string
+    }
+    query: never
+    body: never
+    response: Message
+  }
+
+  // Email a student a password reset link or code; answers the same whether or not the account exists
+  'POST /auth/forgot-password': {
+    operationId: 'requestPasswordReset'
+    path: never
+    query: never
+    body: {
+      email: string
+      method?: PasswordResetMethod
+    }
+    response: Message
+  }
+
+  // Check a student reset token or code before asking for a new password
+  'POST /auth/reset-password/validate': {
+    operationId: 'validatePasswordReset'
+    path: never
+    query: never
+    body: PasswordResetProof
+    response: PasswordResetValidation
+  }
+
+  // Set a new a student password with a reset token or code
+  'POST /auth/reset-password': {
+    operationId: 'resetPassword'
+    path: never
+    query: never
+    body: PasswordReset
+    response: Message
+  }
+
+  // Email the signed-in student a verification link or code
+  'POST /auth/verify/email/send': {
+    operationId: 'sendEmailVerification'
+    path: never
+    query: never
+    body: {
+      method?: EmailVerificationMethod
+    }
+    response: Message
+  }
+
+  // Confirm an email with the link token (no sign-in needed) or the emailed code
+  'POST /auth/verify/email': {
+    operationId: 'verifyEmail'
+    path: never
+    query: never
+    body: EmailVerification
+    response: {
+      student: Student
+    }
+  }
+
+  // Text the signed-in student a verification code
+  'POST /auth/verify/phone/send': {
+    operationId: 'sendPhoneVerification'
+    path: never
+    query: never
+    body: never
+    response: Message
+  }
+
+  // Confirm the phone number with the texted code
+  'POST /auth/verify/phone': {
+    operationId: 'verifyPhone'
+    path: never
+    query: never
+    body: {
+      otp: string
+    }
+    response: {
+      student: Student
+    }
+  }
+
+  // Admin login
+  'POST /auth/admin/login': {
+    operationId: 'adminLogin'
+    path: never
+    query: never
+    body: {
+      email: string
+      password: string
+    }
+    response: {
+      admin: Admin
+      token: string
+    }
+  }
+
+  // Exchange a valid admin token for a fresh one
+  'POST /auth/admin/refresh': {
+    operationId: 'refreshAdminToken'
+    path: never
+    query: never
+    body: never
+    response: Token
+  }
+
+  // Email an admin a password reset link or code; answers the same whether or not the account exists
+  'POST /auth/admin/forgot-password': {
+    operationId: 'requestAdminPasswordReset'
+    path: never
+    query: never
+    body: {
+      email: string
+      method?: PasswordResetMethod
+    }
+    response: Message
+  }
+
+  // Check an admin reset token or code before asking for a new password
+  'POST /auth/admin/reset-password/validate': {
+    operationId: 'validateAdminPasswordReset'
+    path: never
+    query: never
+    body: PasswordResetProof
+    response: PasswordResetValidation
+  }
+
+  // Set a new an admin password with a reset token or code
+  'POST /auth/admin/reset-password': {
+    operationId: 'resetAdminPassword'
+    path: never
+    query: never
+    body: PasswordReset
+    response: Message
+  }
+
+  // Consultation categories
+  'GET /categories': {
+    operationId: 'getCategories'
+    path: never
+    query: never
+    body: never
+    response: {
+      categories: Category[]
+    }
+  }
+
+  // Create a booking for the logged-in student
+  'POST /bookings': {
+    operationId: 'createBooking'
+    path: never
+    query: never
+    body: {
+      consultantType: ConsultantType
+      details: string
+      amount: number // in paise
+    }
+    response: {
+      booking: Booking
+    }
+  }
+
+  // Bookings of the logged-in student
+  'GET /bookings/me': {
+    operationId: 'getBookings'
+    path: never
+    query: {
+      page?: number
+      limit?: number
+    }
+    body: never
+    response: {
+      bookings: Booking[]
+      pagination?: Pagination
+    }
+  }
+
+  // One booking of the logged-in student
+  'GET /bookings/{id}': {
+    operationId: 'getBooking'
+    path: {
+      id: number
+    }
+    query: never
+    body: never
+    response: {
+      booking: Booking
+    }
+  }
+
+  // Create a Razorpay order for a booking
+  'POST /payments/create': {
+    operationId: 'createPaymentOrder'
+    path: never
+    query: never
+    body: {
+      bookingId: number
+    }
+    response: PaymentOrder
+  }
+
+  // Verify a Razorpay payment signature
+  'POST /payments/verify': {
+    operationId: 'verifyPayment'
+    path: never
+    query: never
+    body: {
+      razorpay_payment_id: string
+      razorpay_order_id: string
+      razorpay_signature: string
+      bookingId: number
+    }
+    response: {
+      payment: Payment
+      booking: Booking
+    }
+  }
+
+  // Admin login (admin panel route)
+  'POST /admin/login': {
+    operationId: 'adminPanelLogin'
+    path: never
+    query: never
+    body: {
+      email: string
+      password: string
+    }
+    response: {
+      admin: Admin
+      token: string
+    }
+  }
+
+  // Dashboard totals
+  'GET /admin/dashboard/stats': {
+    operationId: 'getAdminStats'
+    path: never
+    query: never
+    body: never
+    response: AdminStats
+  }
+
+  // All bookings, filtered
+  'GET /admin/bookings': {
+    operationId: 'getAdminBookings'
+    path: never
+    query: {
+      status?: BookingStatus
+      consultantType?: ConsultantType
+      page?: number
+      limit?: number
+      dateFrom?: string
+      dateTo?: string
+      search?: string
+    }
+    body: never
+    response: {
+      bookings: Booking[]
+      pagination?: Pagination
+    }
+  }
+
+  // CSV of every booking
+  'GET /admin/bookings/export': {
+    operationId: 'exportBookings'
+    path: never
+    query: never
+    body: never
+    response: Blob
+  }
+
+  // One booking
+  'GET /admin/bookings/{id}': {
+    operationId: 'getAdminBooking'
+    path: {
+      id: number
+    }
+    query: never
+    body: never
+    response: {
+      booking: Booking
+    }
+  }
+
+  // Delete a booking
+  'DELETE /admin/bookings/{id}': {
+    operationId: 'deleteBooking'
+    path: {
+      id: number
+    }
+    query: never
+    body: never
+    response: Message
+  }
+
+  // Change a booking's status (admin panel route)
+  'PUT /admin/bookings/{id}/status': {
+    operationId: 'replaceBookingStatus'
+    path: {
+      id: number
+    }
+    query: never
+    body: {
+      status: BookingStatus
+    }
+    response: {
+      booking: Booking
+    }
+  }
+
+  // Change a booking's status
+  'PATCH /admin/bookings/{id}/status': {
+    operationId: 'updateBookingStatus'
+    path: {
+      id: number
+    }
+    query: never
+    body: {
+      status: BookingStatus
+    }
+    response: {
+      booking: Booking
+    }
+  }
+
+  // Revenue over time
+  'GET /admin/analytics/revenue': {
+    operationId: 'getRevenueAnalytics'
+    path: never
+    query: {
+      period?: 'daily' | 'weekly' | 'monthly' | 'yearly'
+      dateFrom?: string
+      dateTo?: string
+    }
+    body: never
+    response: RevenueAnalytics
+  }
+
+  // Bookings over time
+  'GET /admin/analytics/bookings': {
+    operationId: 'getBookingAnalytics'
+    path: never
+    query: {
+      period?: 'daily' | 'weekly' | 'monthly' | 'yearly'
+      dateFrom?: string
+      dateTo?: string
+    }
+    body: never
+    response: BookingAnalytics
+  }
+
+  // Users over time
+  'GET /admin/analytics/users': {
+    operationId: 'getUserAnalytics'
+    path: never
+    query: never
+    body: never
+    response: UserAnalytics
+  }
+
+  // All students
+  'GET /admin/users': {
+    operationId: 'getAllUsers'
+    path: never
+    query: {
+      page?: number
+      limit?: number
+      search?: string
+      sortBy?: 'name' | 'email' | 'createdAt'
+      sortOrder?: 'asc' | 'desc'
+    }
+    body: never
+    response: {
+      users: Student[]
+      pagination?: Pagination
+    }
+  }
+
+  // One student with their bookings
+  'GET /admin/users/{id}': {
+    operationId: 'getUserById'
+    path: {
+      id: number
+    }
+    query: never
+    body: never
+    response: {
+      user: Student
+      bookings: Booking[]
+    }
+  }
+
+  // Update a student
+  'PATCH /admin/users/{id}': {
+    operationId: 'updateUser'
+    path: {
+      id: number
+    }
+    query: never
+    body: {
+      name?: string
+      email?: string
+      phone?: string
+      isActive?: boolean
+    }
+    response: {
+      user: Student
+    }
+  }
+
+  // Delete a student with their bookings and payments
+  'DELETE /admin/users/{id}': {
+    operationId: 'deleteUser'
+    path: {
+      id: number
+    }
+    query: never
+    body: never
+    response: Message
+  }
+
+  // Notify a student
+  'POST /admin/users/{id}/notify': {
+    operationId: 'sendNotification'
+    path: {
+      id: number
+    }
+    query: never
+    body: {
+      title: string
+      message: string
+      type: 'info' | 'success' | 'warning' | 'error'
+    }
+    response: Message
+  }
+
+  // All students, unpaginated
+  'GET /admin/students': {
+    operationId: 'getAllStudents'
+    path: never
+    query: never
+    body: never
+    response: {
+      students: Student[]
+    }
+  }
+
+  // All payments, filtered
+  'GET /admin/payments': {
+    operationId: 'getPaymentHistory'
+    path: never
+    query: {
+      page?: number
+      limit?: number
+      status?: BookingStatus
+      dateFrom?: string
+      dateTo?: string
+    }
+    body: never
+    response: {
+      payments: Payment[]
+      pagination?: Pagination
+    }
+  }
+
+  // One payment with its booking
+  'GET /admin/payments/{id}': {
+    operationId: 'getPaymentById'
+    path: {
+      id: number
+    }
+    query: never
+    body: never
+    response: {
+      payment: Payment
+      booking: Booking
+    }
+  }
+
+  // Refund a successful payment
+  'POST /admin/payments/{id}/refund': {
+    operationId: 'refundPayment'
+    path: {
+      id: number
+    }
+    query: never
+    body: {
+      reason: string
+    }
+    response: {
+      message: string
+      refundId: string
+    }
+  }
+
+  // Revenue totals
+  'GET /admin/revenue/stats': {
+    operationId: 'getRevenueStats'
+    path: never
+    query: never
+    body: never
+    response: Record<string, unknown>
+  }
+
+  // Revenue by booking status
+  'GET /admin/revenue/breakdown': {
+    operationId: 'getRevenueBreakdown'
+    path: never
+    query: never
+    body: never
+    response: Record<string, unknown>
+  }
+
+  // Site settings
+  'GET /admin/settings': {
+    operationId: 'getSystemSettings'
+    path: never
+    query: never
+    body: never
+    response: SystemSettings
+  }
+
+  // Update site settings
+  'PUT /admin/settings': {
+    operationId: 'updateSystemSettings'
+    path: never
+    query: never
+    body: {
+      siteName?: string
+      siteDescription?: string
+      contactEmail?: string
+      contactPhone?: string
+      socialLinks?: Record<string, string>
+      maintenanceMode?: boolean
+      registrationEnabled?: boolean
+    }
+    response: Message
+  }
+
+  // JSON backup of every entity
+  'GET /admin/backup': {
+    operationId: 'getBackupData'
+    path: never
+    query: never
+    body: never
+    response: Blob
+  }
+
+  // Replace every entity from a backup file
+  'POST /admin/restore': {
+    operationId: 'restoreBackupData'
+    path: never
+    query: never
+    body: FormData
+    response: Message
+  }
+
+  // Admin API health
+  'GET /admin/health': {
+    operationId: 'adminHealthCheck'
+    path: never
+    query: never
+    body: never
+    response: {
+      status: string
+    }
+  }
+}
+
+export type OperationKey = keyof ApiOperations
+export type OperationPath<K extends OperationKey> = ApiOperations[K]['path']
+export type OperationQuery<K extends OperationKey> = ApiOperations[K]['query']
+export type OperationBody<K extends OperationKey> = ApiOperations[K]['body']
+export type OperationResponse<K extends OperationKey> = ApiOperations[K]['response']
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { filenameFromContentDisposition, readResponseBlob, type DownloadProgress } from './api-download'
+
+// A response whose body arrives in the given chunks
+function streamedResponse(chunks: string[], headers: Record<string, string> = {}): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+  return new Response(body, { headers })
+}
+
+describe('filenameFromContentDisposition', () => {
+  it.each([
+    ['attachment; filename="bookings.csv"', 'bookings.csv'],
+    ['attachment; filename=bookings.csv', 'bookings.csv'],
+    ['attachment; filename="weekly \\"final\\".csv"', 'weekly "final".csv'],
+    ["attachment; filename=\"fallback.csv\"; filename*=UTF-8''b%C3%A4ckup%202025.json", 'bäckup 2025.json'],
+    ["attachment; filename*=UTF-8''%E0%A4%AC.csv", 'ब.csv'],
+  ])('reads %s', (header, filename) => {
+    expect(filenameFromContentDisposition(header)).toBe(filename)
+  })
+
+  it('falls back to the plain name when the encoded one is malformed', () => {
+    expect(filenameFromContentDisposition("attachment; filename*=UTF-8''%E0%A4; filename=plain.csv")).toBe(
+      'plain.csv'
+    )
+  })
+
+  it('keeps only the last path segment', () => {
+    expect(filenameFromContentDisposition('attachment; filename="../../etc/passwd"')).toBe('passwd')
+    // Quoted names treat a backslash as an escape, so a Windows path only splits unquoted
+    expect(filenameFromContentDisposition('attachment; filename=C:\\temp\\report.csv')).toBe('report.csv')
+  })
+
+  it('returns undefined without a usable name', () => {
+    expect(filenameFromContentDisposition(null)).toBeUndefined()
+    expect(filenameFromContentDisposition('inline')).toBeUndefined()
+    expect(filenameFromContentDisposition('attachment; filename="/"')).toBeUndefined()
+  })
+})
+
+describe('readResponseBlob', () => {
+  it('reports progress against content-length', async () => {
+    const progress: DownloadProgress[] = []
+    const response = streamedResponse(['ab', 'cd'], { 'content-type': 'text/csv', 'content-length': '4' })
+
+    const blob = await readResponseBlob(response, update => progress.push(update))
+
+    expect(await blob.text()).toBe('abcd')
+    expect(blob.type).toBe('text/csv')
+    expect(progress).toEqual([
+      { loaded: 0, total: 4, percent: 0 },
+      { loaded: 2, total: 4, percent: 50 },
+      { loaded: 4, total: 4, percent: 100 },
+    ])
+  })
+
+  it('reports bytes without a percentage when there is no content-length', async () => {
+    const progress: DownloadProgress[] = []
+    const response = streamedResponse(['abc', 'de'])
+
+    const blob = await readResponseBlob(response, update => progress.push(update))
+
+    expect(blob.size).toBe(5)
+    expect(blob.type).toBe('application/octet-stream')
+    expect(progress.map(({ loaded, total, percent }) => [loaded, total, percent])).toEqual([
+      [0, undefined, undefined],
+      [3, undefined, undefined],
+      [5, undefined, undefined],
+    ])
+  })
+
+  it('reads the whole body at once without a progress handler', async () => {
+    const blob = await readResponseBlob(streamedResponse(['a', 'b', 'c']))
+
+    expect(await blob.text()).toBe('abc')
+  })
+})
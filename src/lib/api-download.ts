@@ -0,0 +1,105 @@
+/**
+ * API Downloads
+ * Binary responses (CSV exports, backups) read with progress and saved under
+ * the filename the backend suggests
+ */
+
+export interface DownloadProgress {
+  loaded: number // bytes received so far
+  total?: number // from Content-Length; undefined when the server does not send it
+  percent?: number // 0-100, only when `total` is known
+}
+
+export type DownloadProgressHandler = (progress: DownloadProgress) => void
+
+export interface FileDownload {
+  blob: Blob
+  // From Content-Disposition; undefined when the backend does not suggest one
+  filename?: string
+  contentType: string
+}
+
+export function toDownloadProgress(loaded: number, total?: number): DownloadProgress {
+  return {
+    loaded,
+    total,
+    percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : undefined,
+  }
+}
+
+/**
+ * Reads the filename from a Content-Disposition header, preferring the RFC 5987
+ * `filename*=UTF-8''...` form over the plain `filename="..."` one
+ */
+export function filenameFromContentDisposition(header: string | null): string | undefined {
+  if (!header) return undefined
+
+  const encoded = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header)
+  if (encoded) {
+    try {
+      return sanitizeFilename(decodeURIComponent(encoded[2].trim().replace(/^"|"$/g, '')))
+    } catch {
+      // Malformed percent-encoding; fall back to the plain parameter
+    }
+  }
+
+  const plain = /filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i.exec(header)
+  if (!plain) return undefined
+  const value = plain[2] !== undefined ? plain[2].replace(/\\(.)/g, '$1') : plain[1].trim()
+  return sanitizeFilename(value)
+}
+
+// Keeps only the last path segment so a header cannot point outside the downloads folder
+function sanitizeFilename(name: string): string | undefined {
+  const base = name.split(/[\\/]/).pop()?.trim()
+  return base || undefined
+}
+
+/**
+ * Reads a response body into a Blob, reporting progress as chunks arrive
+ */
+export async function readResponseBlob(
+  response: Response,
+  onProgress?: DownloadProgressHandler
+): Promise<Blob> {
+  const contentType = response.headers.get('content-type') || 'application/octet-stream'
+  const length = Number(response.headers.get('content-length'))
+  const total = Number.isFinite(length) && length > 0 ? length : undefined
+
+  if (!onProgress || !response.body) {
+    const blob = await response.blob()
+    onProgress?.(toDownloadProgress(blob.size, blob.size))
+    return blob
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  onProgress(toDownloadProgress(0, total))
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.byteLength
+    onProgress(toDownloadProgress(loaded, total))
+  }
+
+  return new Blob(chunks as BlobPart[], { type: contentType })
+}
+
+/**
+ * Saves a downloaded file through a temporary link; `fallbackName` is used
+ * when the backend did not suggest a filename
+ */
+export function saveDownload(download: FileDownload, fallbackName: string): void {
+  const url = window.URL.createObjectURL(download.blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = download.filename || fallbackName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  // Some browsers start reading the URL only after click() returns
+  setTimeout(() => window.URL.revokeObjectURL(url), 1000)
+}
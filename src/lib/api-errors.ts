@@ -0,0 +1,204 @@
+/**
+ * API Error Model
+ * Stable, code-based failures returned by the API clients instead of free-text errors
+ */
+
+export type ApiErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INVALID_CREDENTIALS'
+  | 'UNAUTHORIZED'
+  | 'TOKEN_EXPIRED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'PAYMENT_FAILED'
+  | 'SERVER_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'ABORTED'
+  | 'INVALID_RESPONSE'
+  | 'UNKNOWN_ERROR'
+
+export const API_ERROR_CODES: readonly ApiErrorCode[] = [
+  'VALIDATION_ERROR',
+  'INVALID_CREDENTIALS',
+  'UNAUTHORIZED',
+  'TOKEN_EXPIRED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'RATE_LIMITED',
+  'PAYMENT_FAILED',
+  'SERVER_ERROR',
+  'SERVICE_UNAVAILABLE',
+  'TIMEOUT',
+  'NETWORK_ERROR',
+  'ABORTED',
+  'INVALID_RESPONSE',
+  'UNKNOWN_ERROR',
+]
+
+// Failures that may succeed if the same request is sent again later
+const RETRYABLE_CODES = new Set<ApiErrorCode>([
+  'RATE_LIMITED',
+  'SERVER_ERROR',
+  'SERVICE_UNAVAILABLE',
+  'TIMEOUT',
+  'NETWORK_ERROR',
+])
+
+export interface ApiFieldError {
+  field?: string
+  message: string
+  code?: string
+}
+
+export interface ApiFailure {
+  success: false
+  code: ApiErrorCode
+  error: string
+  status?: number // undefined when no HTTP response was received
+  retryable: boolean
+  details: ApiFieldError[]
+  // X-Request-Id of the call, for matching the failure to backend logs
+  requestId?: string
+  data?: undefined
+  message?: string
+}
+
+/**
+ * Carries an ApiFailure through code that can only report errors by throwing,
+ * such as async iterators
+ */
+export class ApiRequestError extends Error {
+  readonly failure: ApiFailure
+
+  constructor(failure: ApiFailure) {
+    super(failure.error)
+    this.name = 'ApiRequestError'
+    this.failure = failure
+  }
+}
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && (API_ERROR_CODES as readonly string[]).includes(value)
+}
+
+export function isApiFailure(value: unknown): value is ApiFailure {
+  if (!value || typeof value !== 'object') return false
+  const candidate = value as Record<string, unknown>
+  return candidate.success === false && isApiErrorCode(candidate.code)
+}
+
+export function codeFromStatus(status: number): ApiErrorCode {
+  if (status === 400 || status === 422) return 'VALIDATION_ERROR'
+  if (status === 401) return 'UNAUTHORIZED'
+  if (status === 402) return 'PAYMENT_FAILED'
+  if (status === 403) return 'FORBIDDEN'
+  if (status === 404) return 'NOT_FOUND'
+  if (status === 409) return 'CONFLICT'
+  if (status === 408) return 'TIMEOUT'
+  if (status === 429) return 'RATE_LIMITED'
+  if (status === 502 || status === 503 || status === 504) return 'SERVICE_UNAVAILABLE'
+  if (status >= 500) return 'SERVER_ERROR'
+  return 'UNKNOWN_ERROR'
+}
+
+export function createApiFailure(
+  code: ApiErrorCode,
+  error: string,
+  options: { status?: number; details?: ApiFieldError[] } = {}
+): ApiFailure {
+  return {
+    success: false,
+    code,
+    error,
+    status: options.status,
+    retryable: RETRYABLE_CODES.has(code),
+    details: options.details || [],
+  }
+}
+
+/**
+ * Normalizes backend validation details (strings, zod issues or { field, message } objects)
+ */
+export function normalizeErrorDetails(raw: unknown): ApiFieldError[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw.map((detail: unknown): ApiFieldError => {
+    if (detail && typeof detail === 'object') {
+      const detailObj = detail as Record<string, unknown>
+      const path = Array.isArray(detailObj.path) ? detailObj.path.join('.') : undefined
+      return {
+        field: typeof detailObj.field === 'string' ? detailObj.field : path,
+        message: typeof detailObj.message === 'string' ? detailObj.message : 'Invalid value',
+        code: typeof detailObj.code === 'string' ? detailObj.code : undefined,
+      }
+    }
+    return { message: String(detail) }
+  })
+}
+
+/**
+ * Builds a failure from a non-2xx response and its (possibly empty) JSON body
+ */
+export function failureFromResponse(status: number, body: unknown): ApiFailure {
+  const data = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  const message =
+    (typeof data.message === 'string' && data.message) ||
+    (typeof data.error === 'string' && data.error) ||
+    (status >= 500
+      ? `Server error (${status}). Please try again later.`
+      : `Request failed with status ${status}`)
+
+  let code: ApiErrorCode
+  if (isApiErrorCode(data.code)) {
+    code = data.code
+  } else if (status === 401 && /expired/i.test(message)) {
+    // The backend reports expired JWTs as a plain 401 with a message
+    code = 'TOKEN_EXPIRED'
+  } else {
+    code = codeFromStatus(status)
+  }
+
+  return createApiFailure(code, message, {
+    status,
+    details: normalizeErrorDetails(data.details),
+  })
+}
+
+/**
+ * The caller cancelled the request through its AbortSignal
+ */
+export function abortedFailure(): ApiFailure {
+  return createApiFailure('ABORTED', 'Request was cancelled')
+}
+
+/**
+ * Builds a failure from an exception thrown by fetch (timeouts, DNS, CORS, offline)
+ */
+export function failureFromException(error: unknown): ApiFailure {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return createApiFailure(
+      'TIMEOUT',
+      'Request timeout - server is taking too long to respond. Please try again later.'
+    )
+  }
+
+  let errorMessage = 'Network error - server may be temporarily unavailable'
+  if (error instanceof Error) {
+    if (error.message.includes('Failed to fetch')) {
+      errorMessage = 'Cannot connect to server - please check your internet connection or try again later'
+    } else if (error.message.includes('CORS')) {
+      errorMessage = 'CORS error - please contact support if this persists'
+    } else if (error.message.includes('NetworkError')) {
+      errorMessage = 'Network error - please check your connection and try again'
+    } else {
+      errorMessage = `Connection error: ${error.message}. Please try again later.`
+    }
+  }
+
+  return createApiFailure('NETWORK_ERROR', errorMessage)
+}
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { ApiResponse } from './api'
+import {
+  permissionMiddleware,
+  requestIdMiddleware,
+  validationMiddleware,
+  type ApiHandler,
+  type ApiRequestContext,
+} from './api-middleware'
+import { MISSING_ROLE_MESSAGE } from './admin-permissions'
+import { categoryListSchema, studentProfileSchema } from './api-schemas'
+import { logger } from './logger'
+
+function context(overrides: Partial<ApiRequestContext> = {}): ApiRequestContext {
+  return {
+    endpoint: '/bookings',
+    url: 'http://localhost/api/bookings',
+    method: 'GET',
+    headers: {},
+    init: {},
+    scope: 'student',
+    options: {},
+    attempt: 0,
+    meta: {},
+    ...overrides,
+  }
+}
+
+const respond = (data: unknown): ApiHandler => async () => ({ success: true, data }) as ApiResponse<unknown>
+const succeed = respond(null)
+
+describe('requestIdMiddleware', () => {
+  it('reuses an id the caller already set', async () => {
+    const next = vi.fn(succeed)
+    // Transport headers are lowercased by toHeaderRecord
+    const ctx = context({ headers: { 'x-request-id': 'req-123' } })
+
+    await requestIdMiddleware()(ctx, next)
+
+    expect(ctx.meta.requestId).toBe('req-123')
+    expect(next.mock.calls[0][0].headers).toEqual({ 'x-request-id': 'req-123' })
+  })
+
+  it('generates one id when the caller set none', async () => {
+    const next = vi.fn(succeed)
+    const ctx = context()
+
+    await requestIdMiddleware()(ctx, next)
+
+    const { headers } = next.mock.calls[0][0]
+    expect(Object.keys(headers)).toEqual(['x-request-id'])
+    expect(headers['x-request-id']).toBe(ctx.meta.requestId)
+  })
+})
+
+describe('validationMiddleware', () => {
+  const careerGuidance = { type: 'CAREER_GUIDANCE', title: 'Career Guidance', description: 'Pick a path' }
+
+  it('drops list records that fail the item schema and keeps the rest', async () => {
+    const logError = vi.spyOn(logger, 'error').mockImplementation(() => {})
+    const ctx = context({ options: { responseSchema: categoryListSchema } })
+    const next = respond({ categories: [careerGuidance, { type: 'ASTROLOGY', title: 'Stars' }], featured: 1 })
+
+    const result = await validationMiddleware()(ctx, next)
+
+    expect(result).toEqual({ success: true, data: { categories: [careerGuidance], featured: 1 } })
+    expect(logError).toHaveBeenCalledWith(
+      'Dropped 1 invalid categories record(s): GET /bookings',
+      [expect.objectContaining({ index: 1 })]
+    )
+    logError.mockRestore()
+  })
+
+  it('fails a list payload whose envelope does not match', async () => {
+    const logError = vi.spyOn(logger, 'error').mockImplementation(() => {})
+    const ctx = context({ options: { responseSchema: categoryListSchema } })
+
+    const result = await validationMiddleware()(ctx, respond({ categories: 'none' }))
+
+    expect(result).toMatchObject({ success: false, code: 'INVALID_RESPONSE' })
+    logError.mockRestore()
+  })
+
+  it('still fails a single record that does not match', async () => {
+    const logError = vi.spyOn(logger, 'error').mockImplementation(() => {})
+    const ctx = context({ options: { responseSchema: studentProfileSchema } })
+
+    const result = await validationMiddleware()(ctx, respond({ student: { id: 'x' } }))
+
+    expect(result).toMatchObject({ success: false, code: 'INVALID_RESPONSE' })
+    logError.mockRestore()
+  })
+})
+
+describe('permissionMiddleware', () => {
+  // A signed-in admin as saved by the login page
+  function signIn(admin: object) {
+    const storage = new Map([
+      ['adminToken', 'token'],
+      ['adminUser', JSON.stringify(admin)],
+    ])
+    vi.stubGlobal('window', {})
+    vi.stubGlobal('localStorage', { getItem: (key: string) => storage.get(key) ?? null })
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('lets a role through with the permission', async () => {
+    signIn({ id: 1, email: 'ops@carrierhub.dev', role: 'operations' })
+    const next = vi.fn(succeed)
+
+    await permissionMiddleware()(context({ options: { permission: 'bookings:update' } }), next)
+
+    expect(next).toHaveBeenCalled()
+  })
+
+  it('refuses a role without the permission', async () => {
+    signIn({ id: 1, email: 'support@carrierhub.dev', role: 'support' })
+    vi.spyOn(logger, 'warn').mockImplementation(() => {})
+    const next = vi.fn(succeed)
+
+    const result = await permissionMiddleware()(context({ options: { permission: 'payments:refund' } }), next)
+
+    expect(result).toMatchObject({ success: false, code: 'FORBIDDEN' })
+    expect(next).not.toHaveBeenCalled()
+  })
+
+  it('refuses every gated call for an admin stored without a role', async () => {
+    signIn({ id: 1, email: 'owner@carrierhub.dev' })
+    vi.spyOn(logger, 'warn').mockImplementation(() => {})
+    const next = vi.fn(succeed)
+
+    const result = await permissionMiddleware()(context({ options: { permission: 'bookings:view' } }), next)
+
+    expect(result).toMatchObject({ success: false, code: 'FORBIDDEN', error: MISSING_ROLE_MESSAGE })
+    expect(next).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,520 @@
+/**
+ * API Middleware
+ * Composable request/response behaviours shared by ApiClient and AdminApiClient
+ */
+
+import type { ZodSafeParseResult, ZodType } from 'zod'
+import { hasPermission, MISSING_ROLE_MESSAGE, type AdminPermission } from './admin-permissions'
+import type { ApiResponse } from './api'
+import type { DownloadProgressHandler } from './api-download'
+import {
+  abortedFailure,
+  createApiFailure,
+  normalizeErrorDetails,
+  type ApiFailure,
+  type ApiFieldError,
+} from './api-errors'
+import {
+  expireSessionOnUnauthorized,
+  getAdminToken,
+  getSessionPartition,
+  getStoredAdminRole,
+  getToken,
+  isTokenExpired,
+  notifySessionExpired,
+  type SessionScope,
+} from './auth-utils'
+import { clientCache } from './cache'
+import { addBreadcrumb } from './error-reporting'
+import { logger } from './logger'
+import { isListSchema, type ListSchema } from './api-schemas'
+import { persistentCache, SHARED_PARTITION } from './persistent-cache'
+import { generateRequestId, recordRequestId, REQUEST_ID_HEADER } from './request-id'
+import { broadcastTabMessage } from './tab-sync'
+import { sleep } from './utils'
+
+export interface CachePolicy {
+  key: string
+  ttl?: number
+  tags?: string[]
+  // Also keep the response in IndexedDB across reloads: 'shared' for data that is
+  // the same for everyone, 'user' for data partitioned by the logged-in user
+  persist?: 'shared' | 'user'
+}
+
+export interface RequestOptions extends RequestInit {
+  // Sent as Idempotency-Key; the same key is reused for every retry of the call
+  idempotencyKey?: string
+  // Login endpoints answer 401 for bad credentials, which is not an expired session
+  skipSessionExpiry?: boolean
+  // Fail without a network call when no token is stored for the scope
+  requireToken?: boolean
+  // Admin permission the call needs; refused with FORBIDDEN when the stored role lacks it
+  permission?: AdminPermission
+  // Cache successful GET responses under this key, tagged with the entities they contain
+  cachePolicy?: CachePolicy
+  // Cache tags to invalidate once a mutation succeeds
+  invalidates?: string[]
+  // Checked against the `data` of a successful response (see api-schemas.ts)
+  responseSchema?: ZodType | ListSchema
+  // 'blob' returns the body as a FileDownload instead of parsing JSON
+  responseType?: 'json' | 'blob'
+  // Called as chunks of a 'blob' response arrive
+  onDownloadProgress?: DownloadProgressHandler
+}
+
+export interface ApiRequestContext {
+  endpoint: string
+  url: string
+  method: string
+  headers: Record<string, string>
+  init: RequestInit // passed to fetch along with `headers`
+  scope: SessionScope
+  options: RequestOptions
+  attempt: number
+  meta: Record<string, unknown> // shared by all middleware of one call
+}
+
+export type ApiHandler = (ctx: ApiRequestContext) => Promise<ApiResponse<unknown>>
+export type ApiMiddleware = (ctx: ApiRequestContext, next: ApiHandler) => Promise<ApiResponse<unknown>>
+
+export function composeMiddleware(middlewares: ApiMiddleware[], handler: ApiHandler): ApiHandler {
+  return middlewares.reduceRight<ApiHandler>(
+    (next, middleware) => (ctx) => middleware(ctx, next),
+    handler
+  )
+}
+
+// Maximum retries per HTTP method. Methods that can create or change state twice
+// (POST, PATCH) are only retried when the request carries an idempotency key.
+const RETRY_POLICY: Record<string, number> = {
+  GET: 3,
+  HEAD: 3,
+  OPTIONS: 3,
+  PUT: 3,
+  DELETE: 3,
+  POST: 0,
+  PATCH: 0,
+}
+const MAX_RETRIES = 3
+
+function getMaxRetries(method: string, idempotencyKey: string | undefined, maxRetries: number): number {
+  if (idempotencyKey) return maxRetries
+  return Math.min(RETRY_POLICY[method] ?? 0, maxRetries)
+}
+
+// Only server errors (5xx) and failures without a response are worth retrying
+function shouldRetry(failure: ApiFailure): boolean {
+  if (failure.code === 'ABORTED') return false
+  return failure.status === undefined || failure.status >= 500
+}
+
+// Persistent partition for a cache policy; null when the entry must stay in memory
+function getPersistPartition(policy: CachePolicy, scope: SessionScope): string | null {
+  if (policy.persist === 'shared') return SHARED_PARTITION
+  if (policy.persist === 'user') return getSessionPartition(scope)
+  return null
+}
+
+/**
+ * Serves successful GET responses from clientCache, and from IndexedDB for
+ * persisted policies, when the request sets `cachePolicy`. Invalidates the
+ * `invalidates` tags in both tiers after a successful mutation.
+ */
+export function cacheMiddleware(cache = clientCache, persistent = persistentCache): ApiMiddleware {
+  return async (ctx, next) => {
+    const { cachePolicy: policy, invalidates } = ctx.options
+
+    if (ctx.method !== 'GET') {
+      const result = await next(ctx)
+      if (result.success && invalidates?.length) {
+        const keys = cache.invalidateTags(invalidates)
+        await persistent.invalidateTags(invalidates)
+        // Other tabs drop the same entries from their memory tier
+        broadcastTabMessage({ type: 'cache-invalidate', tags: invalidates })
+        logger.debug(`Invalidated ${keys.length} cache entries for: ${invalidates.join(', ')}`)
+      }
+      return result
+    }
+
+    if (!policy) return next(ctx)
+
+    const cached = cache.get<ApiResponse<unknown>>(policy.key)
+    if (cached) {
+      logger.debug(`Cache hit: ${policy.key}`)
+      return cached
+    }
+
+    const partition = getPersistPartition(policy, ctx.scope)
+    if (partition) {
+      const persisted = await persistent.get<ApiResponse<unknown>>(policy.key, partition)
+      if (persisted) {
+        logger.debug(`Persistent cache hit: ${policy.key}`)
+        // Warm the memory tier for the rest of the entry's lifetime
+        const remainingTtl = persisted.ttl - (Date.now() - persisted.timestamp)
+        cache.set(policy.key, persisted.data, remainingTtl, persisted.tags)
+        return persisted.data
+      }
+    }
+
+    const result = await next(ctx)
+    if (result.success) {
+      cache.set(policy.key, result, policy.ttl, policy.tags)
+      if (partition) {
+        void persistent.set(policy.key, result, { ttl: policy.ttl, tags: policy.tags, partition })
+      }
+    }
+    return result
+  }
+}
+
+interface InFlightRequest {
+  promise: Promise<ApiResponse<unknown>>
+  controller: AbortController
+  subscribers: number
+}
+
+/**
+ * Lets identical concurrent GETs share one network request. Each caller can
+ * still cancel through its own signal; the shared request is only aborted
+ * once every caller has cancelled.
+ */
+export function dedupeMiddleware(): ApiMiddleware {
+  const inFlight = new Map<string, InFlightRequest>()
+
+  return async (ctx, next) => {
+    if (ctx.method !== 'GET') return next(ctx)
+
+    const key = `${ctx.scope} ${ctx.url}`
+    let entry = inFlight.get(key)
+    if (entry) {
+      logger.debug(`Joining in-flight request: ${ctx.method} ${ctx.endpoint}`)
+    } else {
+      const controller = new AbortController()
+      const promise = next({ ...ctx, init: { ...ctx.init, signal: controller.signal } })
+      const created: InFlightRequest = { promise, controller, subscribers: 0 }
+      const release = () => {
+        if (inFlight.get(key) === created) inFlight.delete(key)
+      }
+      promise.then(release, release)
+      inFlight.set(key, created)
+      entry = created
+    }
+
+    const shared = entry
+    shared.subscribers++
+    const signal = ctx.init.signal
+    if (!signal) return shared.promise
+
+    return new Promise<ApiResponse<unknown>>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers--
+        if (shared.subscribers === 0) {
+          inFlight.delete(key)
+          shared.controller.abort()
+        }
+        resolve(abortedFailure())
+      }
+
+      if (signal.aborted) {
+        onAbort()
+        return
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+      shared.promise.then(
+        (result) => {
+          signal.removeEventListener('abort', onAbort)
+          resolve(result)
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort)
+          reject(error)
+        }
+      )
+    })
+  }
+}
+
+/**
+ * Sends an X-Request-Id with the call, the same for every retry, and stamps it
+ * on failures so error toasts can show it. A different id echoed back by the
+ * backend (see fetchHandler) wins, since that is the one in its logs.
+ */
+export function requestIdMiddleware(): ApiMiddleware {
+  return async (ctx, next) => {
+    // ctx.headers comes from a Headers object, so its keys are lowercase
+    const headerKey = REQUEST_ID_HEADER.toLowerCase()
+    const requestId = ctx.headers[headerKey] ?? generateRequestId()
+    ctx.meta.requestId = requestId
+    recordRequestId(requestId)
+
+    const result = await next({ ...ctx, headers: { ...ctx.headers, [headerKey]: requestId } })
+    const finalId = String(ctx.meta.requestId)
+    if (finalId !== requestId) recordRequestId(finalId)
+    return result.success ? result : { ...result, requestId: finalId }
+  }
+}
+
+export function loggingMiddleware(): ApiMiddleware {
+  return async (ctx, next) => {
+    const requestId = ctx.meta.requestId as string | undefined
+    logger.apiRequest(ctx.method, ctx.url, {
+      scope: ctx.scope,
+      endpoint: ctx.endpoint,
+      idempotencyKey: ctx.options.idempotencyKey,
+    }, requestId)
+
+    const result = await next(ctx)
+
+    if (result.success) {
+      logger.apiResponse(Number(ctx.meta.status) || 200, ctx.url, result.data, requestId)
+    } else {
+      logger.apiError(
+        { code: result.code, status: result.status, error: result.error },
+        `${ctx.method} ${ctx.endpoint}${ctx.meta.durationMs !== undefined ? ` after ${ctx.meta.durationMs}ms` : ''}`,
+        String(ctx.meta.requestId)
+      )
+    }
+
+    // The trail of API calls sent with error reports
+    addBreadcrumb({
+      type: 'api',
+      message: `${ctx.method} ${ctx.endpoint} ${result.success ? 'succeeded' : `failed with ${result.code}`}`,
+      data: { status: ctx.meta.status, requestId: ctx.meta.requestId, durationMs: ctx.meta.durationMs },
+    })
+    return result
+  }
+}
+
+/**
+ * Records how long the call took, including retries, in `meta.durationMs`
+ */
+export function tracingMiddleware(): ApiMiddleware {
+  return async (ctx, next) => {
+    const startedAt = Date.now()
+    const result = await next(ctx)
+    ctx.meta.durationMs = Date.now() - startedAt
+    logger.debug(`⏱️ ${ctx.method} ${ctx.endpoint} took ${ctx.meta.durationMs}ms`)
+    return result
+  }
+}
+
+/**
+ * Checks the records of a list payload one at a time. Records that fail are
+ * logged with their position and left out; only a bad envelope fails the call.
+ */
+function parseList(ctx: ApiRequestContext, schema: ListSchema, data: unknown): ZodSafeParseResult<unknown> {
+  const parsed = schema.envelope.safeParse(data)
+  if (!parsed.success) return parsed
+
+  const envelope = parsed.data as Record<string, unknown[]>
+  const items: unknown[] = []
+  const dropped: { index: number; details: ApiFieldError[] }[] = []
+  envelope[schema.key].forEach((record, index) => {
+    const item = schema.item.safeParse(record)
+    if (item.success) items.push(item.data)
+    else dropped.push({ index, details: normalizeErrorDetails(item.error.issues) })
+  })
+
+  if (dropped.length > 0) {
+    logger.error(`Dropped ${dropped.length} invalid ${schema.key} record(s): ${ctx.method} ${ctx.endpoint}`, dropped)
+  }
+  return { success: true, data: { ...envelope, [schema.key]: items } }
+}
+
+/**
+ * Checks successful responses against `responseSchema`. A payload that does not
+ * match is logged with the endpoint and turned into an INVALID_RESPONSE failure,
+ * so pages show an error state instead of rendering half-missing records. List
+ * payloads only drop their bad records (see parseList).
+ */
+export function validationMiddleware(): ApiMiddleware {
+  return async (ctx, next) => {
+    const result = await next(ctx)
+    const schema = ctx.options.responseSchema
+    if (!schema || !result.success) return result
+
+    const parsed = isListSchema(schema) ? parseList(ctx, schema, result.data) : schema.safeParse(result.data)
+    if (parsed.success) return { ...result, data: parsed.data }
+
+    const details = normalizeErrorDetails(parsed.error.issues)
+    logger.error(`Response schema mismatch: ${ctx.method} ${ctx.endpoint}`, details)
+    return createApiFailure('INVALID_RESPONSE', 'Received unexpected data from the server', {
+      status: Number(ctx.meta.status) || undefined,
+      details,
+    })
+  }
+}
+
+/**
+ * Adds the bearer token for the request scope and reports expired sessions.
+ * With the real backend the stored token is only the session hint; the
+ * /api/backend proxy swaps in the token from the httpOnly cookie.
+ */
+export function authMiddleware(): ApiMiddleware {
+  return async (ctx, next) => {
+    const token = ctx.scope === 'admin' ? getAdminToken() : getToken()
+    const { skipSessionExpiry, requireToken } = ctx.options
+
+    if (!token && requireToken) {
+      logger.error(`No ${ctx.scope} token available`)
+      return createApiFailure('UNAUTHORIZED', 'Authentication required')
+    }
+
+    // Don't send a token we already know is expired
+    if (token && !skipSessionExpiry && isTokenExpired(token)) {
+      notifySessionExpired(ctx.scope)
+      return createApiFailure('TOKEN_EXPIRED', 'Your session has expired. Please log in again.', { status: 401 })
+    }
+
+    const result = await next(
+      token ? { ...ctx, headers: { ...ctx.headers, Authorization: `Bearer ${token}` } } : ctx
+    )
+
+    // Central 401 handling: the auth contexts log out and redirect to login
+    if (!result.success && token && !skipSessionExpiry) {
+      return expireSessionOnUnauthorized(result, ctx.scope)
+    }
+    return result
+  }
+}
+
+/**
+ * Refuses admin calls the stored role does not allow, before anything is sent
+ */
+export function permissionMiddleware(): ApiMiddleware {
+  return async (ctx, next) => {
+    const { permission } = ctx.options
+    if (!permission) return next(ctx)
+
+    // Without a session authMiddleware reports the missing token instead
+    if (!getAdminToken()) return next(ctx)
+
+    const role = getStoredAdminRole()
+    if (!role) {
+      logger.warn(`Admin has no role, refusing ${permission}: ${ctx.method} ${ctx.endpoint}`)
+      return createApiFailure('FORBIDDEN', MISSING_ROLE_MESSAGE, { status: 403 })
+    }
+    if (!hasPermission(role, permission)) {
+      logger.warn(`Admin role ${role} lacks ${permission}: ${ctx.method} ${ctx.endpoint}`)
+      return createApiFailure('FORBIDDEN', "You don't have permission to perform this action.", { status: 403 })
+    }
+    return next(ctx)
+  }
+}
+
+/**
+ * Retries failed calls with exponential backoff, limited by the method's retry policy
+ */
+export function retryMiddleware(maxRetries: number = MAX_RETRIES): ApiMiddleware {
+  return async (ctx, next) => {
+    const retries = getMaxRetries(ctx.method, ctx.options.idempotencyKey, maxRetries)
+
+    for (let attempt = 0; ; attempt++) {
+      if (ctx.init.signal?.aborted) return abortedFailure()
+
+      logger.debug(`Making fetch request to: ${ctx.url} (attempt ${attempt + 1}/${retries + 1})`)
+      const result = await next({ ...ctx, attempt })
+      if (result.success || attempt >= retries || !shouldRetry(result)) {
+        return result
+      }
+
+      const waitTime = Math.min(1000 * Math.pow(2, attempt), 10000) // Cap at 10 seconds
+      logger.debug(`Retrying in ${waitTime}ms...`)
+      await sleep(waitTime)
+    }
+  }
+}
+
+/**
+ * Aborts each attempt after a timeout that grows with the attempt number, or
+ * as soon as the caller's signal aborts
+ */
+export function timeoutMiddleware(timeoutMs = 15000, incrementMs = 5000): ApiMiddleware {
+  return async (ctx, next) => {
+    const callerSignal = ctx.init.signal
+    if (callerSignal?.aborted) return abortedFailure()
+
+    const controller = new AbortController()
+    const abortFromCaller = () => controller.abort()
+    callerSignal?.addEventListener('abort', abortFromCaller, { once: true })
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs + ctx.attempt * incrementMs)
+
+    try {
+      const result = await next({ ...ctx, init: { ...ctx.init, signal: controller.signal } })
+      // Report a cancelled call as ABORTED rather than as a timeout
+      return !result.success && callerSignal?.aborted ? abortedFailure() : result
+    } finally {
+      clearTimeout(timeoutId)
+      callerSignal?.removeEventListener('abort', abortFromCaller)
+    }
+  }
+}
+
+export interface MockRoute {
+  method: string
+  // Exact path, a path with `:param` segments, or a regular expression
+  path: string | RegExp
+  handler: (
+    ctx: ApiRequestContext,
+    params: Record<string, string>
+  ) => ApiResponse<unknown> | Promise<ApiResponse<unknown>>
+}
+
+function matchMockPath(path: string | RegExp, pathname: string): Record<string, string> | null {
+  if (path instanceof RegExp) {
+    const match = pathname.match(path)
+    return match ? { ...match.groups } : null
+  }
+
+  const expected = path.split('/')
+  const actual = pathname.split('/')
+  if (expected.length !== actual.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(':')) {
+      params[expected[i].slice(1)] = decodeURIComponent(actual[i])
+    } else if (expected[i] !== actual[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+/**
+ * Answers matching requests from local handlers instead of the network
+ */
+export function mockMiddleware(routes: MockRoute[]): ApiMiddleware {
+  return async (ctx, next) => {
+    const pathname = ctx.endpoint.split('?')[0]
+    for (const route of routes) {
+      if (route.method.toUpperCase() !== ctx.method) continue
+      const params = matchMockPath(route.path, pathname)
+      if (params) {
+        logger.debug(`🧪 Mock: ${ctx.method} ${ctx.endpoint}`)
+        return route.handler(ctx, params)
+      }
+    }
+    return next(ctx)
+  }
+}
+
+/**
+ * The built-in chain, outermost first. Middleware added with `use()` runs
+ * after these, right before the request goes out.
+ */
+export function defaultMiddleware(): ApiMiddleware[] {
+  return [
+    cacheMiddleware(),
+    dedupeMiddleware(),
+    requestIdMiddleware(),
+    loggingMiddleware(),
+    tracingMiddleware(),
+    validationMiddleware(),
+    permissionMiddleware(),
+    authMiddleware(),
+    retryMiddleware(),
+    timeoutMiddleware(),
+  ]
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { ApiResponse } from './api'
+import { createApiFailure } from './api-errors'
+import { PageIterator, type PagedData, type PageRequest } from './api-pagination'
+
+interface Row {
+  id: number
+}
+
+type RowPage = ApiResponse<PagedData<'rows', Row>>
+
+const rows = (...ids: number[]): Row[] => ids.map(id => ({ id }))
+
+// Serves `pages` in order, with a pagination block unless `withPagination` is false
+function fakeEndpoint(pages: Row[][], withPagination = true) {
+  return vi.fn(async ({ page, limit }: PageRequest): Promise<RowPage> => ({
+    success: true,
+    data: {
+      rows: pages[page - 1] ?? [],
+      pagination: withPagination
+        ? { page, limit, total: pages.flat().length, totalPages: pages.length }
+        : undefined,
+    },
+  }))
+}
+
+describe('PageIterator', () => {
+  it('collects every page and stops at the reported last page', async () => {
+    const fetchPage = fakeEndpoint([rows(1, 2), rows(3, 4), rows(5)])
+
+    const result = await new PageIterator('rows', fetchPage, { pageSize: 2 }).all()
+
+    expect(result).toEqual({
+      success: true,
+      data: { items: rows(1, 2, 3, 4, 5), total: 5, truncated: false },
+    })
+    expect(fetchPage).toHaveBeenCalledTimes(3)
+  })
+
+  it('treats a short page as the last one when there is no pagination block', async () => {
+    const fetchPage = fakeEndpoint([rows(1, 2), rows(3)], false)
+
+    const result = await new PageIterator('rows', fetchPage, { pageSize: 2 }).all()
+
+    expect(result.data?.items).toEqual(rows(1, 2, 3))
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('skips records already seen on an earlier page', async () => {
+    // Row 2 slid onto page two after an insert at the top of the list
+    const fetchPage = fakeEndpoint([rows(1, 2), rows(2, 3), rows(4)])
+
+    const result = await new PageIterator('rows', fetchPage, { pageSize: 2 }).all()
+
+    expect(result.data?.items).toEqual(rows(1, 2, 3, 4))
+  })
+
+  it('stops after maxPages and marks the result truncated', async () => {
+    const fetchPage = fakeEndpoint([rows(1, 2), rows(3, 4), rows(5, 6)])
+
+    const result = await new PageIterator('rows', fetchPage, { pageSize: 2, maxPages: 2 }).all()
+
+    expect(result.data).toEqual({ items: rows(1, 2, 3, 4), total: 6, truncated: true })
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('is not truncated when maxPages is exactly the page count', async () => {
+    const fetchPage = fakeEndpoint([rows(1, 2), rows(3)])
+
+    const result = await new PageIterator('rows', fetchPage, { pageSize: 2, maxPages: 2 }).all()
+
+    expect(result.data?.truncated).toBe(false)
+  })
+
+  it('cuts the page that crosses maxItems and marks the result truncated', async () => {
+    const fetchPage = fakeEndpoint([rows(1, 2), rows(3, 4), rows(5, 6)])
+
+    const result = await new PageIterator('rows', fetchPage, { pageSize: 2, maxItems: 3 }).all()
+
+    expect(result.data).toEqual({ items: rows(1, 2, 3), total: 6, truncated: true })
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('returns the failure of a page that could not be fetched', async () => {
+    const failure = createApiFailure('SERVER_ERROR', 'Boom', { status: 500 })
+    const fetchPage = vi
+      .fn<(request: PageRequest) => Promise<RowPage>>()
+      .mockResolvedValueOnce({
+        success: true,
+        data: { rows: rows(1, 2), pagination: { page: 1, limit: 2, total: 4, totalPages: 2 } },
+      })
+      .mockResolvedValueOnce(failure)
+
+    const result = await new PageIterator('rows', fetchPage, { pageSize: 2 }).all()
+
+    expect(result).toBe(failure)
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * API Pagination
+ * Walks paginated list endpoints page by page as async iterators
+ */
+
+import type { ApiResponse } from './api'
+import type { Pagination } from './api-contract'
+import { ApiRequestError } from './api-errors'
+
+// Shape of every list endpoint: the records under one key plus a pagination block
+export type PagedData<K extends string, T> = { [P in K]: T[] } & { pagination?: Pagination }
+
+// What the paginator asks the page fetcher for
+export interface PageRequest {
+  page: number
+  limit: number
+  signal?: AbortSignal
+}
+
+export interface Page<T> {
+  items: T[]
+  page: number
+  // Undefined when the endpoint did not return a pagination block
+  total?: number
+  totalPages?: number
+}
+
+export interface PaginateOptions {
+  signal?: AbortSignal
+  startPage?: number
+  pageSize?: number
+  // Stop after this many pages or items even if the endpoint reports more
+  maxPages?: number
+  maxItems?: number
+}
+
+export interface FetchAllResult<T> {
+  items: T[]
+  total?: number
+  // True when a cap stopped the walk before the last page
+  truncated: boolean
+}
+
+const DEFAULT_PAGE_SIZE = 50
+const DEFAULT_MAX_PAGES = 100
+
+/**
+ * Async iterator over the pages of one list endpoint. Iterating yields pages,
+ * `items()` yields records, and `all()` collects everything up to the caps.
+ * Records are de-duplicated by `id`, so a record pushed onto the next page by
+ * a concurrent insert is not yielded twice.
+ */
+export class PageIterator<K extends string, T> implements AsyncIterable<Page<T>> {
+  private truncated = false
+
+  constructor(
+    private key: K,
+    private fetchPage: (request: PageRequest) => Promise<ApiResponse<PagedData<K, T>>>,
+    private options: PaginateOptions = {}
+  ) {}
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Page<T>> {
+    const {
+      signal,
+      startPage = 1,
+      pageSize = DEFAULT_PAGE_SIZE,
+      maxPages = DEFAULT_MAX_PAGES,
+      maxItems = Infinity,
+    } = this.options
+    const seen = new Set<unknown>()
+    let yielded = 0
+    this.truncated = false
+
+    for (let page = startPage, fetched = 0; ; page++, fetched++) {
+      if (fetched >= maxPages || yielded >= maxItems) {
+        this.truncated = true
+        return
+      }
+
+      const result = await this.fetchPage({ page, limit: pageSize, signal })
+      // Iterators cannot return an ApiFailure, so it travels inside the error
+      if (!result.success) throw new ApiRequestError(result)
+
+      const { pagination } = result.data
+      const received = result.data[this.key] ?? []
+      const unseen = received.filter(item => {
+        const id = (item as { id?: unknown }).id
+        if (id === undefined) return true
+        if (seen.has(id)) return false
+        seen.add(id)
+        return true
+      })
+      const items = unseen.slice(0, maxItems - yielded)
+      yielded += items.length
+      if (items.length < unseen.length) this.truncated = true
+
+      yield { items, page, total: pagination?.total, totalPages: pagination?.totalPages }
+
+      const isLastPage = pagination
+        ? page >= pagination.totalPages
+        : received.length < pageSize
+      if (this.truncated || isLastPage || received.length === 0) return
+    }
+  }
+
+  async *items(): AsyncIterable<T> {
+    for await (const page of this) {
+      yield* page.items
+    }
+  }
+
+  /**
+   * Fetches every page up to the caps; a failed page fails the whole call
+   */
+  async all(): Promise<ApiResponse<FetchAllResult<T>>> {
+    const items: T[] = []
+    let total: number | undefined
+    try {
+      for await (const page of this) {
+        items.push(...page.items)
+        total = page.total ?? total
+      }
+    } catch (error) {
+      if (error instanceof ApiRequestError) return error.failure
+      throw error
+    }
+    return { success: true, data: { items, total, truncated: this.truncated } }
+  }
+}
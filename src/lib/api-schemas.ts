@@ -0,0 +1,169 @@
+/**
+ * API Response Schemas
+ * Runtime checks for backend payloads, applied by the validation middleware when
+ * a request sets `responseSchema`. Objects are loose so fields the backend adds
+ * later pass through untouched; only the fields the app reads are checked.
+ */
+
+import * as z from 'zod'
+import {
+  BOOKING_STATUS_VALUES,
+  CONSULTANT_TYPE_VALUES,
+  type AccountSession,
+  type AdminStats,
+  type Booking,
+  type BookingAnalytics,
+  type BookingStatus,
+  type Category,
+  type ConsultantType,
+  type NotificationPreferences,
+  type Pagination,
+  type Payment,
+  type RevenueAnalytics,
+  type Student,
+  type UserAnalytics,
+} from './api-contract'
+
+// Prisma returns null for unset optional columns; the app types use undefined
+const optional = <T extends z.ZodType>(schema: T) =>
+  schema.nullish().transform(value => value ?? undefined)
+
+export const consultantTypeSchema: z.ZodType<ConsultantType> = z.enum(CONSULTANT_TYPE_VALUES)
+
+export const bookingStatusSchema: z.ZodType<BookingStatus> = z.enum(BOOKING_STATUS_VALUES)
+
+export const studentSchema: z.ZodType<Student> = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  // Backends without verification omit these; treated as not verified
+  emailVerified: z.boolean().default(false),
+  phoneVerified: z.boolean().default(false),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const paymentSchema: z.ZodType<Payment> = z.looseObject({
+  id: z.number(),
+  bookingId: z.number(),
+  razorpayPaymentId: z.string(),
+  razorpayOrderId: z.string(),
+  razorpaySignature: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  status: bookingStatusSchema,
+  createdAt: z.string(),
+})
+
+export const bookingSchema: z.ZodType<Booking> = z.looseObject({
+  id: z.number(),
+  studentId: z.number(),
+  consultantType: consultantTypeSchema,
+  details: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  status: bookingStatusSchema,
+  razorpayOrderId: optional(z.string()),
+  payment: optional(paymentSchema),
+  student: optional(studentSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const categorySchema: z.ZodType<Category> = z.looseObject({
+  type: consultantTypeSchema,
+  title: z.string(),
+  description: z.string(),
+})
+
+export const paginationSchema: z.ZodType<Pagination> = z.looseObject({
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+})
+
+export const adminStatsSchema: z.ZodType<AdminStats> = z.looseObject({
+  totalBookings: z.number(),
+  pendingBookings: z.number(),
+  successBookings: z.number(),
+  completedBookings: z.number(),
+  totalRevenue: z.number(),
+  monthlyBookings: z.number(),
+})
+
+export const revenueAnalyticsSchema: z.ZodType<RevenueAnalytics> = z.looseObject({
+  totalRevenue: z.number(),
+  periodRevenue: z.number(),
+  growth: z.number(),
+  chartData: z.array(z.looseObject({ date: z.string(), revenue: z.number() })),
+})
+
+export const bookingAnalyticsSchema: z.ZodType<BookingAnalytics> = z.looseObject({
+  totalBookings: z.number(),
+  periodBookings: z.number(),
+  growth: z.number(),
+  chartData: z.array(z.looseObject({ date: z.string(), bookings: z.number() })),
+  categoryBreakdown: z.array(
+    z.looseObject({ type: consultantTypeSchema, count: z.number(), percentage: z.number() })
+  ),
+})
+
+export const userAnalyticsSchema: z.ZodType<UserAnalytics> = z.looseObject({
+  totalUsers: z.number(),
+  newUsers: z.number(),
+  activeUsers: z.number(),
+  userGrowth: z.number(),
+  chartData: z.array(z.looseObject({ date: z.string(), users: z.number() })),
+})
+
+export const notificationPreferencesSchema: z.ZodType<NotificationPreferences> = z.looseObject({
+  bookingUpdates: z.boolean(),
+  sessionReminders: z.boolean(),
+  smsReminders: z.boolean(),
+  productNews: z.boolean(),
+})
+
+export const accountSessionSchema: z.ZodType<AccountSession> = z.looseObject({
+  id: z.string(),
+  userAgent: optional(z.string()),
+  ipAddress: optional(z.string()),
+  createdAt: z.string(),
+  lastActiveAt: z.string(),
+  current: z.boolean(),
+})
+
+// Response payloads, i.e. the `data` of each endpoint
+
+/**
+ * A list payload. The validation middleware checks the records under `key` one
+ * at a time and drops the ones that fail, so one bad record does not blank the
+ * whole list; `envelope` checks everything around them, e.g. the pagination block.
+ */
+export interface ListSchema {
+  key: string
+  item: z.ZodType
+  envelope: z.ZodType
+}
+
+const listSchema = (key: string, item: z.ZodType, shape: z.ZodRawShape = {}): ListSchema => ({
+  key,
+  item,
+  envelope: z.looseObject({ [key]: z.array(z.unknown()), ...shape }),
+})
+
+export const isListSchema = (schema: z.ZodType | ListSchema): schema is ListSchema => 'envelope' in schema
+
+export const studentAuthSchema = z.looseObject({ student: studentSchema, token: z.string() })
+export const studentProfileSchema = z.looseObject({ student: studentSchema })
+export const notificationSettingsSchema = z.looseObject({ preferences: notificationPreferencesSchema })
+export const sessionListSchema = listSchema('sessions', accountSessionSchema)
+export const categoryListSchema = listSchema('categories', categorySchema)
+export const bookingDetailSchema = z.looseObject({ booking: bookingSchema })
+export const bookingListSchema = listSchema('bookings', bookingSchema, { pagination: optional(paginationSchema) })
+export const paymentDetailSchema = z.looseObject({ payment: paymentSchema, booking: bookingSchema })
+export const paymentListSchema = listSchema('payments', paymentSchema, { pagination: optional(paginationSchema) })
+export const userDetailSchema = z.looseObject({ user: studentSchema })
+export const userWithBookingsSchema = z.looseObject({ user: studentSchema, bookings: z.array(bookingSchema) })
+export const userListSchema = listSchema('users', studentSchema, { pagination: optional(paginationSchema) })
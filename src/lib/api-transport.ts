@@ -0,0 +1,130 @@
+/**
+ * API Transport
+ * Runs requests through the middleware chain and performs the actual fetch
+ */
+
+import type { ApiResponse } from './api'
+import { filenameFromContentDisposition, readResponseBlob, type FileDownload } from './api-download'
+import { failureFromException, failureFromResponse } from './api-errors'
+import {
+  composeMiddleware,
+  defaultMiddleware,
+  type ApiHandler,
+  type ApiMiddleware,
+  type ApiRequestContext,
+  type RequestOptions,
+} from './api-middleware'
+import type { SessionScope } from './auth-utils'
+import { logger } from './logger'
+import { REQUEST_ID_HEADER } from './request-id'
+
+/**
+ * Terminal handler: sends the request and turns the response into an ApiResponse
+ */
+export const fetchHandler: ApiHandler = async (ctx) => {
+  try {
+    const response = await fetch(ctx.url, { ...ctx.init, headers: ctx.headers })
+    ctx.meta.status = response.status
+    // Backends that assign their own id echo it back (needs Access-Control-Expose-Headers)
+    const echoedRequestId = response.headers.get(REQUEST_ID_HEADER)
+    if (echoedRequestId) ctx.meta.requestId = echoedRequestId
+    logger.debug('Response status:', response.status)
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      return failureFromResponse(response.status, data)
+    }
+
+    if (ctx.options.responseType === 'blob') {
+      const download: FileDownload = {
+        blob: await readResponseBlob(response, ctx.options.onDownloadProgress),
+        filename: filenameFromContentDisposition(response.headers.get('content-disposition')),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+      }
+      return { success: true, data: download }
+    }
+
+    const data = await response.json()
+    return {
+      success: true,
+      data: data.data || data,
+      message: data.message
+    }
+  } catch (error) {
+    return failureFromException(error)
+  }
+}
+
+function toHeaderRecord(headers?: HeadersInit): Record<string, string> {
+  if (!headers) return {}
+  return Object.fromEntries(new Headers(headers).entries())
+}
+
+export class ApiTransport {
+  private baseURL: string
+  private middlewares: ApiMiddleware[]
+  private handler: ApiHandler
+
+  constructor(
+    baseURL: string,
+    middlewares: ApiMiddleware[] = defaultMiddleware(),
+    handler: ApiHandler = fetchHandler
+  ) {
+    this.baseURL = baseURL
+    this.middlewares = middlewares
+    this.handler = handler
+  }
+
+  // Adds middleware after the built-in chain, e.g. request signing or a tenant header
+  use(...middlewares: ApiMiddleware[]): this {
+    this.middlewares.push(...middlewares)
+    return this
+  }
+
+  async request<T>(
+    endpoint: string,
+    options: RequestOptions = {},
+    scope: SessionScope = 'student'
+  ): Promise<ApiResponse<T>> {
+    const { idempotencyKey, headers, ...init } = options
+    // Transport options are read from ctx.options by the middleware, not sent to fetch
+    delete init.skipSessionExpiry
+    delete init.requireToken
+    delete init.cachePolicy
+    delete init.invalidates
+    delete init.responseSchema
+    delete init.responseType
+    delete init.onDownloadProgress
+    delete init.permission
+
+    const method = (init.method || 'GET').toUpperCase()
+    const customHeaders = toHeaderRecord(headers)
+    // Let the browser set the multipart boundary for FormData bodies
+    const isFormData = typeof FormData !== 'undefined' && init.body instanceof FormData
+    const hasContentType = 'content-type' in customHeaders
+
+    const ctx: ApiRequestContext = {
+      endpoint,
+      url: `${this.baseURL}${endpoint}`,
+      method,
+      headers: {
+        ...(!isFormData && !hasContentType && { 'Content-Type': 'application/json' }),
+        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+        ...customHeaders,
+      },
+      init: {
+        mode: 'same-origin', // Every call goes through the /api/backend proxy
+        credentials: 'same-origin', // Carries the httpOnly session cookie to the proxy
+        ...init,
+        method,
+      },
+      scope,
+      options,
+      attempt: 0,
+      meta: {},
+    }
+
+    const pipeline = composeMiddleware(this.middlewares, this.handler)
+    return pipeline(ctx) as Promise<ApiResponse<T>>
+  }
+}
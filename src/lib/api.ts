@@ -1,13 +1,70 @@
-import { getToken } from './auth-utils'
-import { clientCache, CACHE_KEYS, CACHE_TTL, withCache } from './cache'
+import { CACHE_KEYS, CACHE_TAGS, CACHE_TTL } from './cache'
+import { getStoredUserId } from './auth-utils'
 import { logger } from './logger'
+import { API_PROXY_PATH } from './session-cookies'
+import { generateIdempotencyKey } from './utils'
+import type { OperationBody, OperationQuery, OperationResponse } from './api-contract'
+import type { DownloadProgressHandler, FileDownload } from './api-download'
+import { abortedFailure, failureFromException, failureFromResponse, type ApiFailure } from './api-errors'
+import type { ApiMiddleware, RequestOptions } from './api-middleware'
+import { PageIterator, type PagedData, type PageRequest, type PaginateOptions } from './api-pagination'
+import {
+  adminStatsSchema,
+  bookingAnalyticsSchema,
+  bookingDetailSchema,
+  bookingListSchema,
+  categoryListSchema,
+  notificationSettingsSchema,
+  paymentDetailSchema,
+  paymentListSchema,
+  revenueAnalyticsSchema,
+  sessionListSchema,
+  studentAuthSchema,
+  studentProfileSchema,
+  userAnalyticsSchema,
+  userDetailSchema,
+  userListSchema,
+  userWithBookingsSchema,
+} from './api-schemas'
+import { ApiTransport } from './api-transport'
+import { createMockMiddleware, isMockBackendEnabled } from './mock-backend'
+
+export type { ApiErrorCode, ApiFailure, ApiFieldError } from './api-errors'
+export type { ApiMiddleware, ApiRequestContext, RequestOptions } from './api-middleware'
+export type { DownloadProgress, FileDownload } from './api-download'
+export type { FetchAllResult, Page, PageRequest, PaginateOptions } from './api-pagination'
+// Entity types come from the API contract (contract/openapi.json)
+export type {
+  AccountSession,
+  Admin,
+  AdminStats,
+  Booking,
+  BookingAnalytics,
+  BookingStatus,
+  Category,
+  ConsultantType,
+  EmailVerificationMethod,
+  NotificationPreferences,
+  Pagination,
+  PasswordResetMethod,
+  Payment,
+  PaymentOrder,
+  ProfileUpdate,
+  RevenueAnalytics,
+  Student,
+  SystemSettings,
+  UserAnalytics,
+} from './api-contract'
 
 // API URL configuration - use exact URL from environment variable
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://carrierhub-backend.onrender.com/api'
+const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://carrierhub-backend.onrender.com/api'
+// The page calls the same-origin proxy, which adds the session cookie's token
+const API_BASE_URL = API_PROXY_PATH
 
 // Log API configuration in development
 logger.debug('API Configuration', {
   NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL,
+  BACKEND_API_URL: BACKEND_API_URL,
   API_BASE_URL: API_BASE_URL,
   isClient: typeof window !== 'undefined',
   environment: process.env.NODE_ENV,
@@ -15,345 +72,433 @@ logger.debug('API Configuration', {
   hostname: typeof window !== 'undefined' ? window.location.hostname : 'Server'
 })
 
-export interface ApiResponse<T = unknown> {
-  success: boolean
-  data?: T
+export interface ApiSuccess<T> {
+  success: true
+  data: T
   message?: string
-  error?: string
-  details?: unknown[]
+  error?: undefined
+  code?: undefined
 }
 
-// Backend Consultant Types (matching Prisma enum)
-export type ConsultantType = 
-  | 'CAREER_GUIDANCE'
-  | 'COLLEGE_COURSE'
-  | 'EXAM_PREPARATION'
-  | 'STUDY_ABROAD'
-  | 'SKILL_MENTORSHIP'
-  | 'JOB_PLACEMENT'
-  | 'GOVERNMENT_JOBS'
-  | 'PERSONAL_GROWTH'
-  | 'ALTERNATIVE_CAREERS'
-
-// Backend Booking Status (matching Prisma enum)
-export type BookingStatus = 
-  | 'PENDING'
-  | 'PROCESSING'
-  | 'SUCCESS'
-  | 'FAILED'
-  | 'COMPLETED'
-
-export interface Student {
-  id: number
-  name: string
-  email: string
-  phone: string
-  createdAt: string
-  updatedAt: string
+// Branch on `success`, then on `code` for failures - never on the error text
+export type ApiResponse<T = unknown> = ApiSuccess<T> | ApiFailure
+
+// Per-call options accepted by every ApiClient method
+export interface CallOptions {
+  // Cancels the call, e.g. when the component unmounts or its filters change
+  signal?: AbortSignal
+}
+
+export interface DownloadOptions extends CallOptions {
+  // Progress of the response body, e.g. for a progress bar on large exports
+  onDownloadProgress?: DownloadProgressHandler
 }
 
-export interface Booking {
-  id: number
-  studentId: number
-  consultantType: ConsultantType
-  details: string
-  amount: number // in paise
-  currency: string
-  status: BookingStatus
-  razorpayOrderId?: string
-  payment?: Payment
-  student?: Student // Include student details
-  createdAt: string
-  updatedAt: string
+export interface MutationOptions extends CallOptions {
+  // Reuse the same key when resubmitting the same action so the backend can
+  // return the original result instead of performing it twice
+  idempotencyKey?: string
 }
 
-export interface Payment {
-  id: number
-  bookingId: number
-  razorpayPaymentId: string
-  razorpayOrderId: string
-  razorpaySignature: string
-  amount: number
-  currency: string
-  status: BookingStatus
-  createdAt: string
+// Bookings list of the logged-in student
+function studentBookingsTag(): string {
+  return CACHE_TAGS.studentBookings(getStoredUserId() ?? 'me')
 }
 
-export interface Category {
-  type: ConsultantType
-  title: string
-  description: string
+// An admin change to a booking also affects the owning student's list and the stats
+function bookingChangeTags(bookingId: number): string[] {
+  return [CACHE_TAGS.booking(bookingId), CACHE_TAGS.BOOKINGS, CACHE_TAGS.ADMIN_STATS]
 }
 
 export class ApiClient {
   private baseURL: string
+  private transport: ApiTransport
 
-  constructor(baseURL: string = API_BASE_URL) {
+  constructor(baseURL: string = API_BASE_URL, transport: ApiTransport = new ApiTransport(baseURL)) {
     this.baseURL = baseURL
+    this.transport = transport
+  }
+
+  // Adds middleware (request signing, tenant headers, mocks) to every call
+  use(...middlewares: ApiMiddleware[]): this {
+    this.transport.use(...middlewares)
+    return this
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {},
+    options: RequestOptions = {},
     useAdminToken: boolean = false
   ): Promise<ApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`
-    
     // Use admin token for admin endpoints, user token for others
-    const token = useAdminToken 
-      ? (typeof window !== 'undefined' ? localStorage.getItem('adminToken') : null)
-      : getToken()
-
-    const config: RequestInit = {
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token && { Authorization: `Bearer ${token}` }),
-        ...options.headers,
-      },
-      mode: 'cors', // Explicitly set CORS mode
-      credentials: 'omit', // Don't send credentials by default
-      ...options,
-    }
-
-    // Log API request in development
-    logger.apiRequest(options.method || 'GET', `${this.baseURL}${endpoint}`, {
-      hasToken: !!token,
-      useAdminToken,
-      endpoint
-    })
+    return this.transport.request<T>(endpoint, options, useAdminToken ? 'admin' : 'student')
+  }
 
-    // Retry mechanism with exponential backoff
-    const maxRetries = 3
-    let retryCount = 0
-    
-    while (retryCount <= maxRetries) {
-      try {
-        // Add timeout to prevent infinite loading
-        const controller = new AbortController()
-        const timeoutDuration = 15000 + (retryCount * 5000) // Increase timeout with retries
-        const timeoutId = setTimeout(() => controller.abort(), timeoutDuration)
-
-        logger.debug(`Making fetch request to: ${url} (attempt ${retryCount + 1}/${maxRetries + 1})`)
-        logger.debug('Request config', config)
-
-        const response = await fetch(url, {
-          ...config,
-          signal: controller.signal
-        })
-        
-        clearTimeout(timeoutId)
-        
-        logger.debug('Response status:', response.status)
-        logger.debug('Response headers:', Object.fromEntries(response.headers.entries()))
-        
-        if (!response.ok) {
-          logger.error('Response not OK', { status: response.status, statusText: response.statusText })
-          
-          // Don't retry for client errors (4xx), only server errors (5xx) and network issues
-          if (response.status >= 400 && response.status < 500) {
-            const data = await response.json().catch(() => ({ message: 'Client error' }))
-            return {
-              success: false,
-              error: data.message || data.error || `Request failed with status ${response.status}`,
-              details: data.details || []
-            }
-          }
-          
-          // For server errors, try to get error message but continue to retry logic
-          if (retryCount === maxRetries) {
-            const data = await response.json().catch(() => ({ message: 'Server error' }))
-            return {
-              success: false,
-              error: data.message || data.error || `Server error (${response.status}). Please try again later.`,
-              details: data.details || []
-            }
-          }
-        } else {
-          // Success case
-          const data = await response.json()
-
-          logger.apiResponse(response.status, url, data)
-
-          return {
-            success: true,
-            data: data.data || data,
-            message: data.message
-          }
-        }
-      } catch (error) {
-        logger.apiError(error, `attempt ${retryCount + 1}/${maxRetries + 1}`)
-        
-        // If this is the last retry, return the error
-        if (retryCount === maxRetries) {
-          let errorMessage = 'Network error - server may be temporarily unavailable'
-          if (error instanceof Error) {
-            if (error.name === 'AbortError') {
-              errorMessage = 'Request timeout - server is taking too long to respond. Please try again later.'
-            } else if (error.message.includes('Failed to fetch')) {
-              errorMessage = 'Cannot connect to server - please check your internet connection or try again later'
-            } else if (error.message.includes('CORS')) {
-              errorMessage = 'CORS error - please contact support if this persists'
-            } else if (error.message.includes('NetworkError')) {
-              errorMessage = 'Network error - please check your connection and try again'
-            } else {
-              errorMessage = `Connection error: ${error.message}. Please try again later.`
-            }
-          }
-          
-          return {
-            success: false,
-            error: errorMessage,
-            details: []
-          }
-        }
-      }
-      
-      // Wait before retrying (exponential backoff)
-      if (retryCount < maxRetries) {
-        const waitTime = Math.min(1000 * Math.pow(2, retryCount), 10000) // Cap at 10 seconds
-        logger.debug(`Retrying in ${waitTime}ms...`)
-        await new Promise(resolve => setTimeout(resolve, waitTime))
-      }
-      
-      retryCount++
-    }
-    
-    // This should never be reached, but just in case
-    return {
-      success: false,
-      error: 'Maximum retry attempts exceeded. Please try again later.',
-      details: []
-    }
+  /**
+   * Walks a list endpoint page by page. `key` names the array in the response:
+   *
+   *   for await (const user of apiClient.paginate('users', ({ page, limit, signal }) =>
+   *     apiClient.getAllUsers({ page, limit, search }, { signal })).items()) { ... }
+   *
+   * or `await apiClient.paginate(...).all()` to collect every record up to the caps.
+   */
+  paginate<K extends string, T>(
+    key: K,
+    fetchPage: (request: PageRequest) => Promise<ApiResponse<PagedData<K, T>>>,
+    options: PaginateOptions = {}
+  ): PageIterator<K, T> {
+    return new PageIterator(key, fetchPage, options)
   }
 
   // Auth endpoints
-  async signup(userData: { 
-    name: string
-    email: string
-    phone: string
-    password: string
-  }): Promise<ApiResponse<{ student: Student; token: string }>> {
+  async signup(
+    userData: OperationBody<'POST /auth/register'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/register'>>> {
     return this.request('/auth/register', {
+      signal: options.signal,
       method: 'POST',
       body: JSON.stringify(userData),
+      skipSessionExpiry: true,
+      responseSchema: studentAuthSchema,
     })
   }
 
-  async login(credentials: { 
-    email: string
-    password: string
-  }): Promise<ApiResponse<{ student: Student; token: string }>> {
+  async login(
+    credentials: OperationBody<'POST /auth/login'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/login'>>> {
     return this.request('/auth/login', {
+      signal: options.signal,
       method: 'POST',
       body: JSON.stringify(credentials),
+      skipSessionExpiry: true,
+      responseSchema: studentAuthSchema,
+    })
+  }
+
+  // Exchanges the current, still valid token for a fresh one
+  async refreshToken(options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'POST /auth/refresh'>>> {
+    return this.request('/auth/refresh', {
+      signal: options.signal,
+      method: 'POST',
+      skipSessionExpiry: true,
+    })
+  }
+
+  async getProfile(options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /auth/me'>>> {
+    return this.request('/auth/me', { signal: options.signal, responseSchema: studentProfileSchema })
+  }
+
+  // A new email or phone comes back unverified
+  async updateProfile(
+    updates: OperationBody<'PATCH /auth/me'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'PATCH /auth/me'>>> {
+    return this.request('/auth/me', {
+      signal: options.signal,
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+      responseSchema: studentProfileSchema,
+    })
+  }
+
+  // The backend signs out every other session of the student
+  async changePassword(
+    change: OperationBody<'POST /auth/change-password'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/change-password'>>> {
+    return this.request('/auth/change-password', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(change),
+      invalidates: [CACHE_TAGS.SESSIONS],
+    })
+  }
+
+  async getNotificationPreferences(
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'GET /auth/me/notifications'>>> {
+    return this.request('/auth/me/notifications', {
+      signal: options.signal,
+      responseSchema: notificationSettingsSchema,
+    })
+  }
+
+  async updateNotificationPreferences(
+    preferences: OperationBody<'PUT /auth/me/notifications'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'PUT /auth/me/notifications'>>> {
+    return this.request('/auth/me/notifications', {
+      signal: options.signal,
+      method: 'PUT',
+      body: JSON.stringify(preferences),
+      responseSchema: notificationSettingsSchema,
+    })
+  }
+
+  // Signed-in devices, with the one making the request marked `current`
+  async getSessions(options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /auth/sessions'>>> {
+    return this.request('/auth/sessions', { signal: options.signal, responseSchema: sessionListSchema })
+  }
+
+  async revokeSession(
+    sessionId: string,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'DELETE /auth/sessions/{id}'>>> {
+    return this.request(`/auth/sessions/${encodeURIComponent(sessionId)}`, {
+      signal: options.signal,
+      method: 'DELETE',
+      invalidates: [CACHE_TAGS.SESSIONS],
+    })
+  }
+
+  async revokeOtherSessions(
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/sessions/revoke-others'>>> {
+    return this.request('/auth/sessions/revoke-others', {
+      signal: options.signal,
+      method: 'POST',
+      invalidates: [CACHE_TAGS.SESSIONS],
     })
   }
 
-  async getProfile(): Promise<ApiResponse<{ student: Student }>> {
-    return this.request('/auth/me')
+  // Password reset; the backend answers the same whether or not the email has an account
+  async requestPasswordReset(
+    body: OperationBody<'POST /auth/forgot-password'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/forgot-password'>>> {
+    return this.request('/auth/forgot-password', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(body),
+      skipSessionExpiry: true,
+    })
+  }
+
+  async validatePasswordReset(
+    proof: OperationBody<'POST /auth/reset-password/validate'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/reset-password/validate'>>> {
+    return this.request('/auth/reset-password/validate', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(proof),
+      skipSessionExpiry: true,
+    })
+  }
+
+  async resetPassword(
+    reset: OperationBody<'POST /auth/reset-password'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/reset-password'>>> {
+    return this.request('/auth/reset-password', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(reset),
+      skipSessionExpiry: true,
+    })
+  }
+
+  // Contact verification
+  async sendEmailVerification(
+    body: OperationBody<'POST /auth/verify/email/send'> = {},
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/verify/email/send'>>> {
+    return this.request('/auth/verify/email/send', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  }
+
+  // A link token works without a session, e.g. when the link is opened on another device
+  async verifyEmail(
+    proof: OperationBody<'POST /auth/verify/email'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/verify/email'>>> {
+    return this.request('/auth/verify/email', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(proof),
+      skipSessionExpiry: Boolean(proof.token),
+      responseSchema: studentProfileSchema,
+    })
+  }
+
+  async sendPhoneVerification(
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/verify/phone/send'>>> {
+    return this.request('/auth/verify/phone/send', {
+      signal: options.signal,
+      method: 'POST',
+    })
+  }
+
+  async verifyPhone(
+    body: OperationBody<'POST /auth/verify/phone'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/verify/phone'>>> {
+    return this.request('/auth/verify/phone', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(body),
+      responseSchema: studentProfileSchema,
+    })
   }
 
   // Categories endpoint with caching
-  async getCategories(): Promise<ApiResponse<{ categories: Category[] }>> {
-    return withCache(
-      CACHE_KEYS.CATEGORIES,
-      () => this.request('/categories'),
-      CACHE_TTL.LONG
-    )
+  async getCategories(options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /categories'>>> {
+    return this.request('/categories', {
+      signal: options.signal,
+      cachePolicy: {
+        key: CACHE_KEYS.CATEGORIES,
+        ttl: CACHE_TTL.LONG,
+        tags: [CACHE_TAGS.CATEGORIES],
+        persist: 'shared',
+      },
+      responseSchema: categoryListSchema,
+    })
   }
 
   // Booking endpoints
-  async createBooking(bookingData: {
-    consultantType: ConsultantType
-    details: string
-    amount: number
-  }): Promise<ApiResponse<{ booking: Booking }>> {
-    const result = await this.request<{ booking: Booking }>('/bookings', {
+  async createBooking(
+    bookingData: OperationBody<'POST /bookings'>,
+    options: MutationOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /bookings'>>> {
+    return this.request('/bookings', {
+      signal: options.signal,
       method: 'POST',
       body: JSON.stringify(bookingData),
+      idempotencyKey: options.idempotencyKey ?? generateIdempotencyKey(),
+      invalidates: [studentBookingsTag(), CACHE_TAGS.ADMIN_BOOKINGS, CACHE_TAGS.ADMIN_STATS],
+      responseSchema: bookingDetailSchema,
     })
-    
-    // Invalidate bookings cache after creating new booking
-    if (result.success) {
-      clientCache.delete(CACHE_KEYS.BOOKINGS)
-      // Clear all booking-related cache entries
-      const keys = clientCache.keys()
-      keys.forEach(key => {
-        if (key.startsWith(CACHE_KEYS.BOOKINGS)) {
-          clientCache.delete(key)
-        }
-      })
-    }
-    
-    return result
   }
 
-  async getBookings(params?: {
-    page?: number
-    limit?: number
-  }): Promise<ApiResponse<{ bookings: Booking[]; pagination?: { page: number; limit: number; total: number; totalPages: number } }>> {
+  async getBookings(
+    params?: OperationQuery<'GET /bookings/me'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'GET /bookings/me'>>> {
     const queryParams = new URLSearchParams()
     if (params?.page) queryParams.append('page', params.page.toString())
     if (params?.limit) queryParams.append('limit', params.limit.toString())
     
     const endpoint = `/bookings/me${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    const cacheKey = `${CACHE_KEYS.BOOKINGS}_${queryParams.toString() || 'default'}`
+    // Keyed by student so a different login on this browser never sees them
+    const studentId = getStoredUserId() ?? 'me'
+    const cacheKey = `${CACHE_KEYS.BOOKINGS}_${studentId}_${queryParams.toString() || 'default'}`
     
-    return withCache(
-      cacheKey,
-      () => this.request(endpoint),
-      CACHE_TTL.SHORT
-    )
+    return this.request(endpoint, {
+      signal: options.signal,
+      cachePolicy: {
+        key: cacheKey,
+        ttl: CACHE_TTL.SHORT,
+        tags: [CACHE_TAGS.BOOKINGS, CACHE_TAGS.studentBookings(studentId)],
+        persist: 'user',
+      },
+      responseSchema: bookingListSchema,
+    })
   }
 
-  async getBooking(bookingId: number): Promise<ApiResponse<{ booking: Booking }>> {
-    return this.request(`/bookings/${bookingId}`)
+  async getBooking(bookingId: number, options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /bookings/{id}'>>> {
+    return this.request(`/bookings/${bookingId}`, { signal: options.signal, responseSchema: bookingDetailSchema })
   }
 
   // Payment endpoints
-  async createPaymentOrder(bookingId: number): Promise<ApiResponse<{
-    orderId: string
-    amount: number
-    currency: string
-    keyId: string
-  }>> {
+  async createPaymentOrder(
+    bookingId: number,
+    options: MutationOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /payments/create'>>> {
     return this.request('/payments/create', {
+      signal: options.signal,
       method: 'POST',
       body: JSON.stringify({ bookingId }),
+      idempotencyKey: options.idempotencyKey ?? generateIdempotencyKey(),
     })
   }
 
-  async verifyPayment(paymentData: {
-    razorpay_payment_id: string
-    razorpay_order_id: string
-    razorpay_signature: string
-    bookingId: number
-  }): Promise<ApiResponse<{ payment: Payment; booking: Booking }>> {
+  async verifyPayment(
+    paymentData: OperationBody<'POST /payments/verify'>,
+    options: MutationOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /payments/verify'>>> {
     return this.request('/payments/verify', {
+      signal: options.signal,
       method: 'POST',
       body: JSON.stringify(paymentData),
+      idempotencyKey: options.idempotencyKey ?? generateIdempotencyKey(),
+      invalidates: [
+        CACHE_TAGS.booking(paymentData.bookingId),
+        studentBookingsTag(),
+        CACHE_TAGS.ADMIN_BOOKINGS,
+        CACHE_TAGS.ADMIN_STATS,
+        CACHE_TAGS.PAYMENTS,
+      ],
+      responseSchema: paymentDetailSchema,
     })
   }
 
   // Admin endpoints
-  async adminLogin(credentials: { 
-    email: string
-    password: string
-  }): Promise<ApiResponse<{ admin: { id: number; email: string; name: string }; token: string }>> {
+  async adminLogin(
+    credentials: OperationBody<'POST /auth/admin/login'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/admin/login'>>> {
     return this.request('/auth/admin/login', {
+      signal: options.signal,
       method: 'POST',
       body: JSON.stringify(credentials),
+      skipSessionExpiry: true,
     })
   }
 
-  async getAdminBookings(params?: {
-    status?: BookingStatus
-    consultantType?: ConsultantType
-    page?: number
-    limit?: number
-    dateFrom?: string
-    dateTo?: string
-  }): Promise<ApiResponse<{ bookings: Booking[]; pagination?: { page: number; limit: number; total: number; totalPages: number } }>> {
+  async refreshAdminToken(options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'POST /auth/admin/refresh'>>> {
+    return this.request('/auth/admin/refresh', {
+      signal: options.signal,
+      method: 'POST',
+      skipSessionExpiry: true,
+    }, true) // Use admin token
+  }
+
+  async requestAdminPasswordReset(
+    body: OperationBody<'POST /auth/admin/forgot-password'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/admin/forgot-password'>>> {
+    return this.request('/auth/admin/forgot-password', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(body),
+      skipSessionExpiry: true,
+    })
+  }
+
+  async validateAdminPasswordReset(
+    proof: OperationBody<'POST /auth/admin/reset-password/validate'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/admin/reset-password/validate'>>> {
+    return this.request('/auth/admin/reset-password/validate', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(proof),
+      skipSessionExpiry: true,
+    })
+  }
+
+  async resetAdminPassword(
+    reset: OperationBody<'POST /auth/admin/reset-password'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /auth/admin/reset-password'>>> {
+    return this.request('/auth/admin/reset-password', {
+      signal: options.signal,
+      method: 'POST',
+      body: JSON.stringify(reset),
+      skipSessionExpiry: true,
+    })
+  }
+
+  async getAdminBookings(
+    params?: OperationQuery<'GET /admin/bookings'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'GET /admin/bookings'>>> {
     const queryParams = new URLSearchParams()
     if (params?.status) queryParams.append('status', params.status)
     if (params?.consultantType) queryParams.append('consultantType', params.consultantType)
@@ -361,48 +506,64 @@ export class ApiClient {
     if (params?.limit) queryParams.append('limit', params.limit.toString())
     if (params?.dateFrom) queryParams.append('dateFrom', params.dateFrom)
     if (params?.dateTo) queryParams.append('dateTo', params.dateTo)
+    if (params?.search) queryParams.append('search', params.search)
     
     const endpoint = `/admin/bookings${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return this.request(endpoint, {}, true) // Use admin token
+    return this.request(endpoint, { signal: options.signal, permission: 'bookings:view', responseSchema: bookingListSchema }, true) // Use admin token
   }
 
-  async updateBookingStatus(bookingId: number, status: BookingStatus): Promise<ApiResponse<{ booking: Booking }>> {
+  async updateBookingStatus(
+    bookingId: number,
+    status: OperationBody<'PATCH /admin/bookings/{id}/status'>['status'],
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'PATCH /admin/bookings/{id}/status'>>> {
     return this.request(`/admin/bookings/${bookingId}/status`, {
+      signal: options.signal,
+      permission: 'bookings:update',
       method: 'PATCH',
       body: JSON.stringify({ status }),
+      invalidates: bookingChangeTags(bookingId),
+      responseSchema: bookingDetailSchema,
     }, true) // Use admin token
   }
 
-  async exportBookings(): Promise<ApiResponse<Blob>> {
-    return this.request('/admin/bookings/export', {}, true) // Use admin token
+  // CSV of every booking; the filename comes from the backend's Content-Disposition
+  async exportBookings(options: DownloadOptions = {}): Promise<ApiResponse<FileDownload>> {
+    return this.request('/admin/bookings/export', {
+      signal: options.signal,
+      permission: 'bookings:export',
+      responseType: 'blob',
+      onDownloadProgress: options.onDownloadProgress,
+    }, true) // Use admin token
   }
 
-  async getAdminStats(): Promise<ApiResponse<{
-    totalBookings: number
-    pendingBookings: number
-    successBookings: number
-    completedBookings: number
-    totalRevenue: number
-    monthlyBookings: number
-  }>> {
-    return this.request('/admin/dashboard/stats', {}, true) // Use admin token
+  // No permission: the dashboard summary is open to every admin role
+  async getAdminStats(options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /admin/dashboard/stats'>>> {
+    return this.request('/admin/dashboard/stats', { signal: options.signal, responseSchema: adminStatsSchema }, true) // Use admin token
   }
 
   // Test connectivity method
-  async testConnection(): Promise<ApiResponse<unknown>> {
+  async testConnection(options: CallOptions = {}): Promise<ApiResponse<unknown>> {
     logger.debug('Testing connection to:', this.baseURL)
-    return this.request('/categories')
+    return this.request('/categories', { signal: options.signal })
   }
 
   // Health check endpoint
-  async healthCheck(): Promise<ApiResponse<{ status: string; timestamp: string }>> {
+  async healthCheck(options: CallOptions = {}): Promise<ApiResponse<{ status: string; timestamp: string }>> {
+    // The mock backend has no separate health endpoint
+    if (isMockBackendEnabled()) {
+      return { success: true, data: { status: 'ok', timestamp: new Date().toISOString() } }
+    }
+
+    // Use a simple GET request with shorter timeout for health checks
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 5000) // 5 second timeout for health checks
+    const abort = () => controller.abort()
+    options.signal?.addEventListener('abort', abort, { once: true })
+
     try {
-      // Use a simple GET request with shorter timeout for health checks
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 5000) // 5 second timeout for health checks
-      
       // Health endpoint is at root level, not under /api
-      const healthUrl = this.baseURL.replace('/api', '') + '/health'
+      const healthUrl = BACKEND_API_URL.replace('/api', '') + '/health'
       
       const response = await fetch(healthUrl, {
         method: 'GET',
@@ -412,8 +573,6 @@ export class ApiClient {
         }
       })
       
-      clearTimeout(timeoutId)
-      
       if (response.ok) {
         const data = await response.json()
         return {
@@ -421,29 +580,22 @@ export class ApiClient {
           data: data.data || { status: 'ok', timestamp: new Date().toISOString() }
         }
       } else {
-        return {
-          success: false,
-          error: 'Health check failed'
-        }
+        return failureFromResponse(response.status, { message: 'Health check failed' })
       }
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Health check failed'
-      }
+      return options.signal?.aborted ? abortedFailure() : failureFromException(error)
+    } finally {
+      // A long-lived caller signal would otherwise keep one listener per check
+      clearTimeout(timeoutId)
+      options.signal?.removeEventListener('abort', abort)
     }
   }
 
   // Get all bookings for admin (with filters)
-  async getAllBookings(params?: {
-    status?: BookingStatus
-    consultantType?: ConsultantType
-    page?: number
-    limit?: number
-    dateFrom?: string
-    dateTo?: string
-    search?: string
-  }): Promise<ApiResponse<{ bookings: Booking[]; pagination?: { page: number; limit: number; total: number; totalPages: number } }>> {
+  async getAllBookings(
+    params?: OperationQuery<'GET /admin/bookings'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'GET /admin/bookings'>>> {
     const queryParams = new URLSearchParams()
     if (params?.status) queryParams.append('status', params.status)
     if (params?.consultantType) queryParams.append('consultantType', params.consultantType)
@@ -454,93 +606,76 @@ export class ApiClient {
     if (params?.search) queryParams.append('search', params.search)
     
     const endpoint = `/admin/bookings${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return this.request(endpoint, {}, true) // Use admin token
+    return this.request(endpoint, { signal: options.signal, permission: 'bookings:view', responseSchema: bookingListSchema }, true) // Use admin token
   }
 
   // Get booking by ID for admin
-  async getAdminBooking(bookingId: number): Promise<ApiResponse<{ booking: Booking }>> {
-    return this.request(`/admin/bookings/${bookingId}`, {}, true) // Use admin token
+  async getAdminBooking(bookingId: number, options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /admin/bookings/{id}'>>> {
+    return this.request(`/admin/bookings/${bookingId}`, { signal: options.signal, permission: 'bookings:view', responseSchema: bookingDetailSchema }, true) // Use admin token
   }
 
   // Delete booking (admin only)
-  async deleteBooking(bookingId: number): Promise<ApiResponse<{ message: string }>> {
+  async deleteBooking(bookingId: number, options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'DELETE /admin/bookings/{id}'>>> {
     return this.request(`/admin/bookings/${bookingId}`, {
-      method: 'DELETE'
+      signal: options.signal,
+      permission: 'bookings:delete',
+      method: 'DELETE',
+      invalidates: bookingChangeTags(bookingId),
     }, true) // Use admin token
   }
 
   // Get revenue analytics
-  async getRevenueAnalytics(params?: {
-    period?: 'daily' | 'weekly' | 'monthly' | 'yearly'
-    dateFrom?: string
-    dateTo?: string
-  }): Promise<ApiResponse<{
-    totalRevenue: number
-    periodRevenue: number
-    growth: number
-    chartData: Array<{ date: string; revenue: number }>
-  }>> {
+  async getRevenueAnalytics(
+    params?: OperationQuery<'GET /admin/analytics/revenue'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'GET /admin/analytics/revenue'>>> {
     const queryParams = new URLSearchParams()
     if (params?.period) queryParams.append('period', params.period)
     if (params?.dateFrom) queryParams.append('dateFrom', params.dateFrom)
     if (params?.dateTo) queryParams.append('dateTo', params.dateTo)
     
     const endpoint = `/admin/analytics/revenue${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return this.request(endpoint, {}, true) // Use admin token
+    return this.request(endpoint, { signal: options.signal, permission: 'analytics:view', responseSchema: revenueAnalyticsSchema }, true) // Use admin token
   }
 
   // Get booking analytics
-  async getBookingAnalytics(params?: {
-    period?: 'daily' | 'weekly' | 'monthly' | 'yearly'
-    dateFrom?: string
-    dateTo?: string
-  }): Promise<ApiResponse<{
-    totalBookings: number
-    periodBookings: number
-    growth: number
-    chartData: Array<{ date: string; bookings: number }>
-    categoryBreakdown: Array<{ type: ConsultantType; count: number; percentage: number }>
-  }>> {
+  async getBookingAnalytics(
+    params?: OperationQuery<'GET /admin/analytics/bookings'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'GET /admin/analytics/bookings'>>> {
     const queryParams = new URLSearchParams()
     if (params?.period) queryParams.append('period', params.period)
     if (params?.dateFrom) queryParams.append('dateFrom', params.dateFrom)
     if (params?.dateTo) queryParams.append('dateTo', params.dateTo)
     
     const endpoint = `/admin/analytics/bookings${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return this.request(endpoint, {}, true) // Use admin token
+    return this.request(endpoint, { signal: options.signal, permission: 'analytics:view', responseSchema: bookingAnalyticsSchema }, true) // Use admin token
   }
 
   // Get user analytics
-  async getUserAnalytics(): Promise<ApiResponse<{
-    totalUsers: number
-    newUsers: number
-    activeUsers: number
-    userGrowth: number
-    chartData: Array<{ date: string; users: number }>
-  }>> {
-    return this.request('/admin/analytics/users', {}, true) // Use admin token
+  async getUserAnalytics(options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /admin/analytics/users'>>> {
+    return this.request('/admin/analytics/users', { signal: options.signal, permission: 'analytics:view', responseSchema: userAnalyticsSchema }, true) // Use admin token
   }
 
   // Send notification to user
-  async sendNotification(userId: number, notification: {
-    title: string
-    message: string
-    type: 'info' | 'success' | 'warning' | 'error'
-  }): Promise<ApiResponse<{ message: string }>> {
+  async sendNotification(
+    userId: number,
+    notification: OperationBody<'POST /admin/users/{id}/notify'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /admin/users/{id}/notify'>>> {
     return this.request(`/admin/users/${userId}/notify`, {
+      signal: options.signal,
+      permission: 'users:notify',
       method: 'POST',
       body: JSON.stringify(notification)
     }, true) // Use admin token
   }
 
   // Get all users (admin)
-  async getAllUsers(params?: {
-    page?: number
-    limit?: number
-    search?: string
-    sortBy?: 'name' | 'email' | 'createdAt'
-    sortOrder?: 'asc' | 'desc'
-  }): Promise<ApiResponse<{ users: Student[]; pagination?: { page: number; limit: number; total: number; totalPages: number } }>> {
+  async getAllUsers(
+    params?: OperationQuery<'GET /admin/users'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'GET /admin/users'>>> {
     const queryParams = new URLSearchParams()
     if (params?.page) queryParams.append('page', params.page.toString())
     if (params?.limit) queryParams.append('limit', params.limit.toString())
@@ -549,42 +684,52 @@ export class ApiClient {
     if (params?.sortOrder) queryParams.append('sortOrder', params.sortOrder)
     
     const endpoint = `/admin/users${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return this.request(endpoint, {}, true) // Use admin token
+    return this.request(endpoint, { signal: options.signal, permission: 'users:view', responseSchema: userListSchema }, true) // Use admin token
   }
 
   // Get user by ID (admin)
-  async getUserById(userId: number): Promise<ApiResponse<{ user: Student; bookings: Booking[] }>> {
-    return this.request(`/admin/users/${userId}`, {}, true) // Use admin token
+  async getUserById(userId: number, options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /admin/users/{id}'>>> {
+    return this.request(`/admin/users/${userId}`, { signal: options.signal, permission: 'users:view', responseSchema: userWithBookingsSchema }, true) // Use admin token
   }
 
   // Update user (admin)
-  async updateUser(userId: number, userData: {
-    name?: string
-    email?: string
-    phone?: string
-    isActive?: boolean
-  }): Promise<ApiResponse<{ user: Student }>> {
+  async updateUser(
+    userId: number,
+    userData: OperationBody<'PATCH /admin/users/{id}'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'PATCH /admin/users/{id}'>>> {
     return this.request(`/admin/users/${userId}`, {
+      signal: options.signal,
+      permission: 'users:update',
       method: 'PATCH',
-      body: JSON.stringify(userData)
+      body: JSON.stringify(userData),
+      invalidates: [CACHE_TAGS.user(userId), CACHE_TAGS.USERS],
+      responseSchema: userDetailSchema,
     }, true) // Use admin token
   }
 
   // Delete user (admin)
-  async deleteUser(userId: number): Promise<ApiResponse<{ message: string }>> {
+  async deleteUser(userId: number, options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'DELETE /admin/users/{id}'>>> {
     return this.request(`/admin/users/${userId}`, {
-      method: 'DELETE'
+      signal: options.signal,
+      permission: 'users:delete',
+      method: 'DELETE',
+      // The user's bookings and payments go with them
+      invalidates: [
+        CACHE_TAGS.user(userId),
+        CACHE_TAGS.USERS,
+        CACHE_TAGS.BOOKINGS,
+        CACHE_TAGS.PAYMENTS,
+        CACHE_TAGS.ADMIN_STATS,
+      ],
     }, true) // Use admin token
   }
 
   // Get payment history
-  async getPaymentHistory(params?: {
-    page?: number
-    limit?: number
-    status?: BookingStatus
-    dateFrom?: string
-    dateTo?: string
-  }): Promise<ApiResponse<{ payments: Payment[]; pagination?: { page: number; limit: number; total: number; totalPages: number } }>> {
+  async getPaymentHistory(
+    params?: OperationQuery<'GET /admin/payments'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'GET /admin/payments'>>> {
     const queryParams = new URLSearchParams()
     if (params?.page) queryParams.append('page', params.page.toString())
     if (params?.limit) queryParams.append('limit', params.limit.toString())
@@ -593,68 +738,96 @@ export class ApiClient {
     if (params?.dateTo) queryParams.append('dateTo', params.dateTo)
     
     const endpoint = `/admin/payments${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-    return this.request(endpoint, {}, true) // Use admin token
+    return this.request(endpoint, { signal: options.signal, permission: 'payments:view', responseSchema: paymentListSchema }, true) // Use admin token
   }
 
   // Get payment by ID
-  async getPaymentById(paymentId: number): Promise<ApiResponse<{ payment: Payment; booking: Booking }>> {
-    return this.request(`/admin/payments/${paymentId}`, {}, true) // Use admin token
+  async getPaymentById(paymentId: number, options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /admin/payments/{id}'>>> {
+    return this.request(`/admin/payments/${paymentId}`, { signal: options.signal, permission: 'payments:view', responseSchema: paymentDetailSchema }, true) // Use admin token
   }
 
   // Refund payment
-  async refundPayment(paymentId: number, reason: string): Promise<ApiResponse<{ message: string; refundId: string }>> {
+  async refundPayment(
+    paymentId: number,
+    reason: string,
+    options: MutationOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'POST /admin/payments/{id}/refund'>>> {
     return this.request(`/admin/payments/${paymentId}/refund`, {
+      signal: options.signal,
+      permission: 'payments:refund',
       method: 'POST',
-      body: JSON.stringify({ reason })
+      body: JSON.stringify({ reason }),
+      idempotencyKey: options.idempotencyKey ?? generateIdempotencyKey(),
+      invalidates: [
+        CACHE_TAGS.payment(paymentId),
+        CACHE_TAGS.PAYMENTS,
+        CACHE_TAGS.BOOKINGS,
+        CACHE_TAGS.ADMIN_STATS,
+      ],
     }, true) // Use admin token
   }
 
   // Get system settings
-  async getSystemSettings(): Promise<ApiResponse<{
-    siteName: string
-    siteDescription: string
-    contactEmail: string
-    contactPhone: string
-    socialLinks: Record<string, string>
-    maintenanceMode: boolean
-    registrationEnabled: boolean
-  }>> {
-    return this.request('/admin/settings', {}, true) // Use admin token
+  async getSystemSettings(options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'GET /admin/settings'>>> {
+    return this.request('/admin/settings', { signal: options.signal, permission: 'settings:view' }, true) // Use admin token
   }
 
   // Update system settings
-  async updateSystemSettings(settings: {
-    siteName?: string
-    siteDescription?: string
-    contactEmail?: string
-    contactPhone?: string
-    socialLinks?: Record<string, string>
-    maintenanceMode?: boolean
-    registrationEnabled?: boolean
-  }): Promise<ApiResponse<{ message: string }>> {
+  async updateSystemSettings(
+    settings: OperationBody<'PUT /admin/settings'>,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<OperationResponse<'PUT /admin/settings'>>> {
     return this.request('/admin/settings', {
+      signal: options.signal,
+      permission: 'settings:update',
       method: 'PUT',
-      body: JSON.stringify(settings)
+      body: JSON.stringify(settings),
+      invalidates: [CACHE_TAGS.SETTINGS],
     }, true) // Use admin token
   }
 
   // Get backup data
-  async getBackupData(): Promise<ApiResponse<Blob>> {
-    return this.request('/admin/backup', {}, true) // Use admin token
+  async getBackupData(options: DownloadOptions = {}): Promise<ApiResponse<FileDownload>> {
+    return this.request('/admin/backup', {
+      signal: options.signal,
+      permission: 'backup:download',
+      responseType: 'blob',
+      onDownloadProgress: options.onDownloadProgress,
+    }, true) // Use admin token
   }
 
   // Restore backup data
-  async restoreBackupData(backupFile: File): Promise<ApiResponse<{ message: string }>> {
+  async restoreBackupData(backupFile: File, options: CallOptions = {}): Promise<ApiResponse<OperationResponse<'POST /admin/restore'>>> {
     const formData = new FormData()
     formData.append('backup', backupFile)
     
+    // The transport leaves Content-Type unset for FormData so the browser adds the boundary
     return this.request('/admin/restore', {
+      signal: options.signal,
+      permission: 'backup:restore',
       method: 'POST',
       body: formData,
-      headers: {} // Let browser set Content-Type for FormData
+      // A restore replaces every entity
+      invalidates: [
+        CACHE_TAGS.CATEGORIES,
+        CACHE_TAGS.BOOKINGS,
+        CACHE_TAGS.USERS,
+        CACHE_TAGS.PAYMENTS,
+        CACHE_TAGS.SETTINGS,
+        CACHE_TAGS.ADMIN_STATS,
+      ],
     }, true) // Use admin token
   }
 
 }
 
-export const apiClient = new ApiClient()
\ No newline at end of file
+// Shared by apiClient and adminApiClient so middleware added once applies to both
+export const apiTransport = new ApiTransport(API_BASE_URL)
+
+// NEXT_PUBLIC_API_MOCK=true serves every call from the in-memory mock backend
+if (isMockBackendEnabled()) {
+  logger.info('Using the in-process mock backend')
+  apiTransport.use(createMockMiddleware())
+}
+
+export const apiClient = new ApiClient(API_BASE_URL, apiTransport)
\ No newline at end of file
@@ -1,7 +1,20 @@
 // lib/auth-utils.ts
 'use client';
 
+import { isAdminRole, type AdminRole } from './admin-permissions';
+import type { ApiFailure } from './api-errors';
+import { isMockBackendEnabled } from './mock-backend';
+import { persistentCache } from './persistent-cache';
+import { getTokenExpiry, SESSION_ROUTE } from './session-cookies';
+
+export { getTokenExpiry };
+
 export const TOKEN_KEY = 'token'; // Use same key as existing auth system
+export const ADMIN_TOKEN_KEY = 'adminToken';
+export const USER_KEY = 'user';
+export const ADMIN_USER_KEY = 'adminUser';
+
+export type SessionScope = 'student' | 'admin';
 
 export function getToken(): string | null {
   if (typeof window === 'undefined') return null;
@@ -12,8 +25,59 @@ export function getToken(): string | null {
   }
 }
 
+export function getAdminToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return localStorage.getItem(ADMIN_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Id of the logged-in student or admin, from the profile saved at login
+export function getStoredUserId(scope: SessionScope = 'student'): number | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const key = scope === 'admin' ? ADMIN_USER_KEY : USER_KEY;
+    const user = JSON.parse(localStorage.getItem(key) || 'null') as { id?: unknown } | null;
+    return typeof user?.id === 'number' ? user.id : null;
+  } catch {
+    return null;
+  }
+}
+
+// Role of the logged-in admin; null without an admin session or when the stored admin has no known role
+export function getStoredAdminRole(): AdminRole | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const admin = JSON.parse(localStorage.getItem(ADMIN_USER_KEY) || 'null') as { role?: unknown } | null;
+    return isAdminRole(admin?.role) ? admin.role : null;
+  } catch {
+    return null;
+  }
+}
+
+// Cache partition holding data that belongs to the current session's user
+export function getSessionPartition(scope: SessionScope): string | null {
+  const userId = getStoredUserId(scope);
+  return userId === null ? null : `${scope}:${userId}`;
+}
+
+// Drops the user's persisted API data so the next person on this device never sees it.
+// Call before the stored profile is removed.
+export function clearSessionCache(scope: SessionScope): void {
+  const partition = getSessionPartition(scope);
+  if (partition) void persistentCache.clearPartition(partition);
+}
+
+export function isTokenExpired(token: string | null, now: number = Date.now()): boolean {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt !== null && expiresAt <= now;
+}
+
 export function isLoggedIn(): boolean {
-  return !!getToken();
+  const token = getToken();
+  return !!token && !isTokenExpired(token);
 }
 
 export function getSafeRedirect(next: string | null, defaultPath = '/dashboard'): string {
@@ -27,10 +91,83 @@ export function getSafeRedirect(next: string | null, defaultPath = '/dashboard')
   return next;
 }
 
+/**
+ * Login URL to send the user to after their session expired, keeping the
+ * current page as the `next` parameter for students
+ */
+export function getSessionExpiredRedirect(scope: SessionScope): string {
+  if (scope === 'admin') return '/admin/login';
+  if (typeof window === 'undefined') return '/login';
+
+  const current = getSafeRedirect(window.location.pathname + window.location.search, '');
+  if (!current || current.startsWith('/login')) return '/login';
+  return `/login?next=${encodeURIComponent(current)}`;
+}
+
+// Session expiry notifications, raised by the API clients on 401 responses
+type SessionExpiredListener = (scope: SessionScope) => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+export function notifySessionExpired(scope: SessionScope): void {
+  sessionExpiredListeners.forEach((listener) => listener(scope));
+}
+
+/**
+ * A 401 on a request that carried a token means the session is no longer valid:
+ * notify the session listeners and report the failure as TOKEN_EXPIRED
+ */
+export function expireSessionOnUnauthorized(failure: ApiFailure, scope: SessionScope): ApiFailure {
+  if (failure.status !== 401) return failure;
+  notifySessionExpired(scope);
+  return { ...failure, code: 'TOKEN_EXPIRED' };
+}
+
+/**
+ * Makes sure the httpOnly session cookie matches the stored session. With the
+ * real backend the proxy sets the cookie at login, so this only checks it is
+ * still there; the in-browser mock backend has no server side, so its token is
+ * copied into the cookie for middleware.ts. Resolves to true when unsure, e.g.
+ * offline, rather than signing the user out.
+ */
+export async function ensureSessionCookie(scope: SessionScope, token: string): Promise<boolean> {
+  try {
+    if (isMockBackendEnabled()) {
+      const response = await fetch(SESSION_ROUTE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope, token }),
+      });
+      return response.ok;
+    }
+
+    const response = await fetch(SESSION_ROUTE, { cache: 'no-store' });
+    if (!response.ok) return true;
+    const sessions = (await response.json()) as Partial<Record<SessionScope, unknown>>;
+    return Boolean(sessions[scope]);
+  } catch {
+    return true;
+  }
+}
+
+// Removes the httpOnly cookie, which page scripts cannot do themselves
+export function clearSessionCookie(scope: SessionScope): void {
+  if (typeof window === 'undefined') return;
+  void fetch(`${SESSION_ROUTE}?scope=${scope}`, { method: 'DELETE', keepalive: true }).catch(() => {});
+}
+
 export function logout(router?: ReturnType<typeof import('next/navigation').useRouter>) {
+  clearSessionCookie('student');
   try { 
+    clearSessionCache('student');
     localStorage.removeItem(TOKEN_KEY);
-    localStorage.removeItem('user'); // Also clear our existing user
+    localStorage.removeItem(USER_KEY); // Also clear our existing user
   } catch {}
   router?.replace('/login');
 }
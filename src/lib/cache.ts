@@ -1,21 +1,40 @@
 // Client-side caching utility for improved performance
 
+import { onTabMessage } from './tab-sync'
+
 interface CacheItem<T> {
   data: T
   timestamp: number
   ttl: number // Time to live in milliseconds
+  tags: string[] // Entities the data was built from, e.g. `booking:123`
+  invalidated?: boolean // A mutation changed one of the tagged entities
 }
 
+export type CacheListener = () => void
+
 class ClientCache {
   private cache = new Map<string, CacheItem<unknown>>()
+  private tagIndex = new Map<string, Set<string>>() // tag -> keys
+  private listeners = new Map<string, Set<CacheListener>>()
   private readonly defaultTTL = 5 * 60 * 1000 // 5 minutes
 
-  set<T>(key: string, data: T, ttl: number = this.defaultTTL): void {
+  set<T>(key: string, data: T, ttl: number = this.defaultTTL, tags: string[] = []): void {
+    this.untag(key)
     this.cache.set(key, {
       data,
       timestamp: Date.now(),
-      ttl
+      ttl,
+      tags
     })
+    tags.forEach(tag => {
+      let keys = this.tagIndex.get(tag)
+      if (!keys) {
+        keys = new Set()
+        this.tagIndex.set(tag, keys)
+      }
+      keys.add(key)
+    })
+    this.notify(key)
   }
 
   get<T>(key: string): T | null {
@@ -25,9 +44,9 @@ class ClientCache {
       return null
     }
 
-    // Check if item has expired
-    if (Date.now() - item.timestamp > item.ttl) {
-      this.cache.delete(key)
+    // Check if item has expired or was invalidated
+    if (this.isExpired(item)) {
+      this.remove(key)
       return null
     }
 
@@ -41,21 +60,92 @@ class ClientCache {
       return false
     }
 
-    // Check if item has expired
-    if (Date.now() - item.timestamp > item.ttl) {
-      this.cache.delete(key)
+    // Check if item has expired or was invalidated
+    if (this.isExpired(item)) {
+      this.remove(key)
       return false
     }
 
     return true
   }
 
+  // Returns the entry even after its TTL has passed, for stale-while-revalidate reads
+  peek<T>(key: string): CacheItem<T> | null {
+    return (this.cache.get(key) as CacheItem<T> | undefined) ?? null
+  }
+
+  isStale(key: string): boolean {
+    const item = this.cache.get(key)
+    return !item || this.isExpired(item)
+  }
+
   delete(key: string): boolean {
-    return this.cache.delete(key)
+    const deleted = this.remove(key)
+    if (deleted) this.notify(key)
+    return deleted
   }
 
   clear(): void {
+    const keys = this.keys()
     this.cache.clear()
+    this.tagIndex.clear()
+    keys.forEach(key => this.notify(key))
+  }
+
+  /**
+   * Marks every entry carrying one of `tags` as invalid. Plain reads treat the
+   * entries as missing; mounted queries keep showing them while they refetch.
+   * Returns the affected keys.
+   */
+  invalidateTags(tags: string[]): string[] {
+    const keys = new Set<string>()
+    tags.forEach(tag => this.tagIndex.get(tag)?.forEach(key => keys.add(key)))
+
+    keys.forEach(key => {
+      const item = this.cache.get(key)
+      if (item && !item.invalidated) {
+        this.cache.set(key, { ...item, invalidated: true })
+        this.notify(key)
+      }
+    })
+    return Array.from(keys)
+  }
+
+  // Calls `listener` whenever the entry for `key` is set, invalidated or removed
+  subscribe(key: string, listener: CacheListener): () => void {
+    let keyListeners = this.listeners.get(key)
+    if (!keyListeners) {
+      keyListeners = new Set()
+      this.listeners.set(key, keyListeners)
+    }
+    keyListeners.add(listener)
+
+    return () => {
+      keyListeners.delete(listener)
+      if (keyListeners.size === 0) this.listeners.delete(key)
+    }
+  }
+
+  private notify(key: string): void {
+    this.listeners.get(key)?.forEach(listener => listener())
+  }
+
+  private isExpired(item: CacheItem<unknown>): boolean {
+    return !!item.invalidated || Date.now() - item.timestamp > item.ttl
+  }
+
+  // Removes an entry and its tag index records without notifying listeners
+  private remove(key: string): boolean {
+    this.untag(key)
+    return this.cache.delete(key)
+  }
+
+  private untag(key: string): void {
+    this.cache.get(key)?.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag)
+      keys?.delete(key)
+      if (keys?.size === 0) this.tagIndex.delete(tag)
+    })
   }
 
   // Get cache size
@@ -63,12 +153,12 @@ class ClientCache {
     return this.cache.size
   }
 
-  // Clean expired items
+  // Clean expired items. Entries that mounted components still show are kept
+  // so they can be served stale while they revalidate.
   cleanup(): void {
-    const now = Date.now()
     for (const [key, item] of this.cache.entries()) {
-      if (now - item.timestamp > item.ttl) {
-        this.cache.delete(key)
+      if (this.isExpired(item) && !this.listeners.has(key)) {
+        this.remove(key)
       }
     }
   }
@@ -91,6 +181,24 @@ export const CACHE_KEYS = {
   TESTIMONIALS: 'testimonials'
 } as const
 
+// Cache tags name the entities an entry depends on. Lists carry both the
+// shared tag (BOOKINGS) and their scope so a mutation can invalidate either.
+export const CACHE_TAGS = {
+  CATEGORIES: 'categories',
+  BOOKINGS: 'bookings',
+  ADMIN_BOOKINGS: 'bookings:admin',
+  ADMIN_STATS: 'admin-stats',
+  USERS: 'users',
+  PAYMENTS: 'payments',
+  SETTINGS: 'settings',
+  // Signed-in devices of the current student
+  SESSIONS: 'sessions',
+  booking: (bookingId: number) => `booking:${bookingId}`,
+  studentBookings: (studentId: number | string) => `bookings:student:${studentId}`,
+  user: (userId: number) => `user:${userId}`,
+  payment: (paymentId: number) => `payment:${paymentId}`
+} as const
+
 // Cache TTL constants (in milliseconds)
 export const CACHE_TTL = {
   SHORT: 2 * 60 * 1000,    // 2 minutes
@@ -127,19 +235,16 @@ export function withCache<T>(
   })
 }
 
-// Invalidate cache by pattern
-export function invalidateCachePattern(pattern: string): void {
-  const keys = clientCache.keys()
-  keys.forEach(key => {
-    if (key.includes(pattern)) {
-      clientCache.delete(key)
-    }
-  })
-}
-
 // Auto cleanup every 10 minutes
 if (typeof window !== 'undefined') {
   setInterval(() => {
     clientCache.cleanup()
   }, 10 * 60 * 1000)
+
+  // Apply invalidations made by mutations in other tabs
+  onTabMessage(message => {
+    if (message.type === 'cache-invalidate') {
+      clientCache.invalidateTags(message.tags)
+    }
+  })
 }
\ No newline at end of file
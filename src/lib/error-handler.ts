@@ -3,8 +3,10 @@
  * Provides consistent error handling patterns across the application
  */
 
-import { toast } from "sonner";
+import { toast, type ExternalToast } from "sonner";
 import { logger } from "./logger";
+import { isApiFailure, type ApiErrorCode, type ApiFailure } from "./api-errors";
+import { copyRequestId } from "./request-id";
 
 export interface ErrorDetails {
   code?: string;
@@ -16,11 +18,49 @@ export interface ErrorDetails {
 export interface AppError {
   type: 'network' | 'validation' | 'auth' | 'payment' | 'server' | 'client';
   message: string;
+  code?: ApiErrorCode;
+  status?: number;
+  retryable?: boolean;
   details?: ErrorDetails[];
   originalError?: unknown;
   context?: string;
+  requestId?: string;
 }
 
+// AppError category for each API error code
+const API_ERROR_TYPES: Record<ApiErrorCode, AppError['type']> = {
+  VALIDATION_ERROR: 'validation',
+  INVALID_CREDENTIALS: 'auth',
+  UNAUTHORIZED: 'auth',
+  TOKEN_EXPIRED: 'auth',
+  FORBIDDEN: 'auth',
+  NOT_FOUND: 'client',
+  CONFLICT: 'client',
+  RATE_LIMITED: 'server',
+  PAYMENT_FAILED: 'payment',
+  SERVER_ERROR: 'server',
+  SERVICE_UNAVAILABLE: 'server',
+  TIMEOUT: 'network',
+  NETWORK_ERROR: 'network',
+  ABORTED: 'client',
+  INVALID_RESPONSE: 'server',
+  UNKNOWN_ERROR: 'client',
+};
+
+// Fixed user-facing messages; codes not listed keep the backend's message
+const API_ERROR_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  INVALID_CREDENTIALS: "Invalid email or password. Please check and try again.",
+  UNAUTHORIZED: "Authentication failed. Please log in again.",
+  TOKEN_EXPIRED: "Your session has expired. Please log in again.",
+  FORBIDDEN: "You don't have permission to perform this action.",
+  RATE_LIMITED: "Too many requests. Please wait a moment before trying again.",
+  SERVER_ERROR: "Server error occurred. Please try again later.",
+  SERVICE_UNAVAILABLE: "Server is temporarily unavailable. Please try again later.",
+  TIMEOUT: "Request timed out. The server may be busy, please try again.",
+  NETWORK_ERROR: "Unable to connect to the server. Please try again later.",
+  INVALID_RESPONSE: "Received unexpected data from the server. Please try again later.",
+};
+
 class ErrorHandler {
   // Network-related errors
   static handleNetworkError(error: unknown, context?: string): AppError {
@@ -164,8 +204,37 @@ class ErrorHandler {
     return appError;
   }
 
+  // Failed API responses, mapped by their error code
+  static fromApiFailure(failure: ApiFailure, context?: string): AppError {
+    const details: ErrorDetails[] = failure.details.map((detail) => ({
+      code: detail.code,
+      field: detail.field,
+      message: detail.message,
+      suggestion: detail.field ? this.getFieldSuggestion(detail.field) : undefined,
+    }));
+
+    const appError: AppError = {
+      type: API_ERROR_TYPES[failure.code],
+      message: API_ERROR_MESSAGES[failure.code] || failure.error,
+      code: failure.code,
+      status: failure.status,
+      retryable: failure.retryable,
+      details,
+      originalError: failure,
+      context,
+      requestId: failure.requestId
+    };
+
+    logger.error('API Error', { error: appError });
+    return appError;
+  }
+
   // Generic error handler that determines error type
   static handle(error: unknown, context?: string): AppError {
+    if (isApiFailure(error)) {
+      return this.fromApiFailure(error, context);
+    }
+
     // Type guard for error objects
     const isErrorObject = (err: unknown): err is Record<string, unknown> => {
       return err !== null && typeof err === 'object';
@@ -226,53 +295,90 @@ class ErrorHandler {
   // Display error to user with appropriate UI
   static show(error: AppError | unknown, fallbackMessage?: string): void {
     const appError = (error && typeof error === 'object' && 'type' in error) ? error as AppError : this.handle(error);
+
+    // The auth contexts already showed the "session expired" toast and redirected
+    if (appError.code === 'TOKEN_EXPIRED') return;
+    // Cancelled on purpose by the caller, nothing to tell the user
+    if (appError.code === 'ABORTED') return;
     
+    const withId = (options: ExternalToast = {}) => this.withRequestId(options, appError.requestId);
+
     // Show toast based on error type
     switch (appError.type) {
       case 'network':
-        toast.error(appError.message, {
+        toast.error(appError.message, withId({
           description: "Check your connection and try again",
           action: {
             label: "Retry",
             onClick: () => window.location.reload()
           }
-        });
+        }));
         break;
         
       case 'auth':
-        toast.error(appError.message, {
+        // Signed in, but the admin role does not allow it; logging in again won't help
+        if (appError.code === 'FORBIDDEN') {
+          toast.error(appError.message, withId({
+            description: "Ask a super admin if you need access"
+          }));
+          break;
+        }
+        toast.error(appError.message, withId({
           description: "You may need to log in again",
           action: {
             label: "Login",
             onClick: () => window.location.href = '/login'
           }
-        });
+        }));
         break;
         
       case 'payment':
-        toast.error(appError.message, {
+        toast.error(appError.message, withId({
           description: "Contact support if amount was deducted",
           duration: 8000
-        });
+        }));
         break;
         
       case 'validation':
         if (appError.details && appError.details.length > 0) {
           appError.details.forEach((detail: ErrorDetails) => {
-            toast.error(detail.message, {
+            toast.error(detail.message, withId({
               description: detail.suggestion
-            });
+            }));
           });
         } else {
-          toast.error(appError.message);
+          toast.error(appError.message, withId());
         }
         break;
         
       default:
-        toast.error(appError.message || fallbackMessage || "Something went wrong");
+        toast.error(appError.message || fallbackMessage || "Something went wrong", withId());
     }
   }
 
+  // Adds the request id to a toast so support can match it to backend logs
+  private static withRequestId(options: ExternalToast, requestId?: string): ExternalToast {
+    if (!requestId) return options;
+
+    const copy = {
+      label: "Copy ID",
+      onClick: async () => {
+        if (await copyRequestId(requestId)) {
+          toast.success("Request ID copied");
+        } else {
+          toast.error("Could not copy the request ID");
+        }
+      }
+    };
+
+    return {
+      ...options,
+      description: `${options.description ? `${options.description}. ` : ""}Request ID: ${requestId}`,
+      // Keep an existing action (Retry, Login) and offer copying as the secondary button
+      ...(options.action ? { cancel: copy } : { action: copy }),
+    };
+  }
+
   // Get suggestion for field validation errors
   private static getFieldSuggestion(field: string): string {
     const suggestions: Record<string, string> = {
@@ -309,6 +415,7 @@ class ErrorHandler {
 
 // Convenience functions
 export const handleError = ErrorHandler.handle.bind(ErrorHandler);
+export const handleApiFailure = ErrorHandler.fromApiFailure.bind(ErrorHandler);
 export const showError = ErrorHandler.show.bind(ErrorHandler);
 export const withErrorHandling = ErrorHandler.wrap.bind(ErrorHandler);
 
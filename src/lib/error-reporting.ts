@@ -0,0 +1,190 @@
+/**
+ * Client Error Reporting
+ * Builds reports for crashes and unhandled promise rejections, with the
+ * recent API calls, navigation and clicks as breadcrumbs, and posts them to
+ * the collector at NEXT_PUBLIC_ERROR_REPORT_URL
+ */
+
+import { logger } from './logger';
+import { redact } from './log-redaction';
+import { getLastRequestId } from './request-id';
+import { generateIdempotencyKey } from './utils';
+
+export interface Breadcrumb {
+  type: 'api' | 'navigation' | 'action';
+  message: string;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+export type ErrorReportSource = 'boundary' | 'unhandledrejection';
+
+export interface ErrorReport {
+  id: string;
+  source: ErrorReportSource;
+  name: string;
+  message: string;
+  stack?: string;
+  componentStack?: string;
+  // Path only; query strings can carry tokens
+  route?: string;
+  appVersion: string;
+  userAgent?: string;
+  // Last X-Request-Id sent before the error
+  requestId?: string;
+  breadcrumbs: Breadcrumb[];
+  timestamp: string;
+  // Set when the user sends the report themselves from the error page
+  comment?: string;
+  userReported?: boolean;
+}
+
+const MAX_BREADCRUMBS = 30;
+// Caps what a render loop or a rejection storm can send in one page view
+const MAX_REPORTS_PER_PAGE = 10;
+
+const collectorUrl = process.env.NEXT_PUBLIC_ERROR_REPORT_URL;
+const appVersion = process.env.NEXT_PUBLIC_APP_VERSION || 'development';
+
+let breadcrumbs: Breadcrumb[] = [];
+const sentFingerprints = new Set<string>();
+let reportsSent = 0;
+
+export function isErrorReportingEnabled(): boolean {
+  return Boolean(collectorUrl);
+}
+
+export function addBreadcrumb(crumb: Omit<Breadcrumb, 'timestamp'>) {
+  breadcrumbs.push({ ...crumb, timestamp: new Date().toISOString() });
+  if (breadcrumbs.length > MAX_BREADCRUMBS) {
+    breadcrumbs = breadcrumbs.slice(-MAX_BREADCRUMBS);
+  }
+}
+
+// Oldest first
+export function getBreadcrumbs(): Breadcrumb[] {
+  return [...breadcrumbs];
+}
+
+function toError(reason: unknown): Error {
+  if (reason instanceof Error) return reason;
+  if (typeof reason === 'string') return new Error(reason);
+  try {
+    return new Error(JSON.stringify(reason));
+  } catch {
+    return new Error(String(reason));
+  }
+}
+
+export function buildErrorReport(
+  error: unknown,
+  source: ErrorReportSource,
+  componentStack?: string
+): ErrorReport {
+  const { name, message, stack } = toError(error);
+  const inBrowser = typeof window !== 'undefined';
+
+  return {
+    id: generateIdempotencyKey(),
+    source,
+    name,
+    message,
+    stack,
+    componentStack,
+    route: inBrowser ? window.location.pathname : undefined,
+    appVersion,
+    userAgent: inBrowser ? navigator.userAgent : undefined,
+    requestId: getLastRequestId() ?? undefined,
+    breadcrumbs: getBreadcrumbs(),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+async function postReport(report: ErrorReport): Promise<boolean> {
+  if (!collectorUrl) return false;
+  try {
+    const response = await fetch(collectorUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // Breadcrumbs and messages can hold emails or tokens like any log line
+      body: JSON.stringify(redact(report)),
+      keepalive: true,
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Logs the error and sends its report unless the same error was already sent
+ * from this page. Returns the report so the error page can send it again with
+ * a comment.
+ */
+export function captureError(
+  error: unknown,
+  source: ErrorReportSource,
+  componentStack?: string
+): ErrorReport {
+  const report = buildErrorReport(error, source, componentStack);
+  logger.error(`Captured ${source} error: ${report.message}`, {
+    reportId: report.id,
+    requestId: report.requestId,
+    stack: report.stack,
+  });
+
+  const fingerprint = `${report.name}|${report.message}|${report.stack?.split('\n')[1] ?? ''}`;
+  if (!sentFingerprints.has(fingerprint) && reportsSent < MAX_REPORTS_PER_PAGE) {
+    sentFingerprints.add(fingerprint);
+    reportsSent++;
+    void postReport(report);
+  }
+  return report;
+}
+
+/**
+ * Sends a report again as reported by the user, with their comment; the
+ * collector can join it to the automatic one by `id`
+ */
+export function reportProblem(report: ErrorReport, comment?: string): Promise<boolean> {
+  return postReport({
+    ...report,
+    comment: comment?.trim() || undefined,
+    userReported: true,
+    breadcrumbs: getBreadcrumbs(),
+  });
+}
+
+// Short description of what was clicked, without reading any input values
+function describeTarget(element: Element): string | null {
+  const target = element.closest('button, a, [role="button"], [role="tab"], [role="menuitem"]');
+  if (!target) return null;
+
+  const label = target.getAttribute('aria-label') || target.textContent?.trim().replace(/\s+/g, ' ') || '';
+  const kind = target.tagName === 'A' ? 'link' : target.getAttribute('role') || 'button';
+  return `Clicked ${kind}${label ? ` "${label.slice(0, 60)}"` : ''}`;
+}
+
+/**
+ * Listens for unhandled promise rejections and records clicks as
+ * breadcrumbs. Returns the cleanup function.
+ */
+export function installErrorReporting(): () => void {
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    captureError(event.reason, 'unhandledrejection');
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    if (!(event.target instanceof Element)) return;
+    const message = describeTarget(event.target);
+    if (message) addBreadcrumb({ type: 'action', message });
+  };
+
+  window.addEventListener('unhandledrejection', handleRejection);
+  document.addEventListener('click', handleClick, { capture: true });
+
+  return () => {
+    window.removeEventListener('unhandledrejection', handleRejection);
+    document.removeEventListener('click', handleClick, { capture: true });
+  };
+}
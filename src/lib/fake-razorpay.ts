@@ -0,0 +1,196 @@
+/**
+ * Fake Razorpay checkout for development and tests
+ * Stands in for checkout.js when NEXT_PUBLIC_RAZORPAY_FAKE=true (on by default
+ * with the mock backend), so the success, failure and cancel paths can be
+ * exercised without network access or a Razorpay account.
+ */
+
+import type {
+  RazorpayErrorCode,
+  RazorpayFailureResponse,
+  RazorpayInstance,
+  RazorpayOptions,
+} from "./payment-utils";
+
+export type FakeRazorpayOutcome =
+  | { type: "success" }
+  | { type: "failure"; code: RazorpayErrorCode }
+  | { type: "dismiss" };
+
+// Preset outcome for scripted runs, e.g. "success", "dismiss" or "failure:GATEWAY_ERROR".
+// Without one, the fake checkout asks which outcome to simulate.
+const OUTCOME_STORAGE_KEY = "fakeRazorpayOutcome";
+
+// Time the fake checkout takes to "process" a payment
+const FAKE_PROCESSING_MS = 300;
+
+const FAILURE_CODES: RazorpayErrorCode[] = [
+  "BAD_REQUEST_ERROR",
+  "GATEWAY_ERROR",
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "INVALID_REQUEST_ERROR",
+  "AUTHENTICATION_ERROR",
+];
+
+const FAILURE_DESCRIPTIONS: Record<RazorpayErrorCode, string> = {
+  BAD_REQUEST_ERROR: "Payment was declined by the bank",
+  GATEWAY_ERROR: "Payment gateway did not respond",
+  NETWORK_ERROR: "Network error during payment",
+  SERVER_ERROR: "Razorpay server error",
+  INVALID_REQUEST_ERROR: "Invalid payment request",
+  AUTHENTICATION_ERROR: "Payment authentication failed",
+};
+
+export function isFakeRazorpayEnabled(): boolean {
+  const setting = process.env.NEXT_PUBLIC_RAZORPAY_FAKE;
+  if (setting) return setting === "true";
+  // Orders created by the mock backend cannot be paid through the real checkout
+  return process.env.NEXT_PUBLIC_API_MOCK === "true";
+}
+
+/**
+ * Deterministic stand-in for Razorpay's HMAC signature of `order_id|payment_id`.
+ * The mock backend's payment verification accepts exactly this value.
+ */
+export const fakeRazorpaySignature = (orderId: string, paymentId: string): string => {
+  // FNV-1a, enough to tell a matching signature from a tampered one
+  let hash = 0x811c9dc5;
+  for (const char of `${orderId}|${paymentId}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `fake_sig_${hash.toString(16).padStart(8, "0")}`;
+};
+
+let presetOutcome: FakeRazorpayOutcome | null = null;
+
+/**
+ * Sets the outcome of every following checkout; pass null to ask again
+ */
+export const setFakeRazorpayOutcome = (outcome: FakeRazorpayOutcome | null): void => {
+  presetOutcome = outcome;
+};
+
+const parseOutcome = (value: string | null): FakeRazorpayOutcome | null => {
+  if (value === "success" || value === "dismiss") return { type: value };
+  const [type, code = "BAD_REQUEST_ERROR"] = (value || "").split(":");
+  if (type === "failure" && FAILURE_CODES.includes(code as RazorpayErrorCode)) {
+    return { type: "failure", code: code as RazorpayErrorCode };
+  }
+  return null;
+};
+
+const getPresetOutcome = (): FakeRazorpayOutcome | null => {
+  if (presetOutcome) return presetOutcome;
+  try {
+    return parseOutcome(localStorage.getItem(OUTCOME_STORAGE_KEY));
+  } catch {
+    return null;
+  }
+};
+
+export class FakeRazorpay implements RazorpayInstance {
+  private failureHandlers: ((response: RazorpayFailureResponse) => void)[] = [];
+  private dialog: HTMLElement | null = null;
+
+  constructor(private options: RazorpayOptions) {}
+
+  on(event: "payment.failed", handler: (response: RazorpayFailureResponse) => void): void {
+    if (event === "payment.failed") this.failureHandlers.push(handler);
+  }
+
+  open(): void {
+    const outcome = getPresetOutcome();
+    if (outcome) {
+      setTimeout(() => this.complete(outcome), FAKE_PROCESSING_MS);
+    } else {
+      this.showDialog();
+    }
+  }
+
+  close(): void {
+    this.dialog?.remove();
+    this.dialog = null;
+  }
+
+  private complete(outcome: FakeRazorpayOutcome): void {
+    this.close();
+    const orderId = this.options.order_id;
+    const paymentId = `pay_fake_${Date.now().toString(36)}`;
+
+    switch (outcome.type) {
+      case "success":
+        this.options.handler({
+          razorpay_payment_id: paymentId,
+          razorpay_order_id: orderId,
+          razorpay_signature: fakeRazorpaySignature(orderId, paymentId),
+        });
+        break;
+      case "failure": {
+        const response: RazorpayFailureResponse = {
+          error: {
+            code: outcome.code,
+            description: FAILURE_DESCRIPTIONS[outcome.code],
+            source: "customer",
+            step: "payment_authorization",
+            reason: "payment_failed",
+            metadata: { order_id: orderId, payment_id: paymentId },
+          },
+        };
+        this.failureHandlers.forEach((handler) => handler(response));
+        break;
+      }
+      case "dismiss":
+        this.options.modal?.ondismiss?.();
+        break;
+    }
+  }
+
+  // Minimal overlay with one button per outcome, built without React so it
+  // can be opened from anywhere checkout.js could
+  private showDialog(): void {
+    const overlay = document.createElement("div");
+    overlay.setAttribute("role", "dialog");
+    overlay.setAttribute("aria-label", "Fake Razorpay checkout");
+    overlay.style.cssText =
+      "position:fixed;inset:0;z-index:2147483647;display:flex;align-items:center;justify-content:center;background:rgba(0,0,0,0.5);font-family:sans-serif";
+
+    const panel = document.createElement("div");
+    panel.style.cssText =
+      "display:flex;flex-direction:column;gap:8px;width:320px;padding:20px;border-radius:8px;background:#fff;color:#111";
+
+    const title = document.createElement("strong");
+    title.textContent = "Fake Razorpay checkout";
+    const summary = document.createElement("p");
+    summary.style.cssText = "margin:0 0 8px;font-size:14px";
+    summary.textContent = `${this.options.description} · ₹${(this.options.amount / 100).toLocaleString("en-IN")} · ${this.options.order_id}`;
+    panel.append(title, summary);
+
+    const addButton = (label: string, outcome: FakeRazorpayOutcome) => {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.textContent = label;
+      button.style.cssText =
+        "padding:8px;border:1px solid #ccc;border-radius:4px;background:#f8f8f8;cursor:pointer;text-align:left";
+      button.addEventListener("click", () => this.complete(outcome));
+      panel.append(button);
+    };
+
+    addButton("Pay successfully", { type: "success" });
+    FAILURE_CODES.forEach((code) => addButton(`Fail with ${code}`, { type: "failure", code }));
+    addButton("Close checkout", { type: "dismiss" });
+
+    overlay.append(panel);
+    document.body.append(overlay);
+    this.dialog = overlay;
+  }
+}
+
+/**
+ * Installs the fake as window.Razorpay; the real checkout.js is not loaded in this mode
+ */
+export const installFakeRazorpay = (): void => {
+  if (typeof window === "undefined") return;
+  window.Razorpay = FakeRazorpay;
+};
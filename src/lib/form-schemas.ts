@@ -0,0 +1,36 @@
+/**
+ * Form Schemas
+ * Validation rules shared by forms that must agree, e.g. signup and password reset
+ */
+
+import * as z from 'zod'
+
+// Mirrors the backend's rule for new passwords
+export const MIN_PASSWORD_LENGTH = 6
+
+export const passwordSchema = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+
+// 10 to 13 digits once spaces, dashes and a leading + are dropped; the number gets an OTP
+export const phoneSchema = z
+  .string()
+  .trim()
+  .refine(phone => /^\+?[\d\s-]+$/.test(phone) && /^\d{10,13}$/.test(phone.replace(/\D/g, '')), {
+    message: 'Enter a valid phone number',
+  })
+
+/**
+ * `shape` plus `password` and `confirmPassword` fields, with the signup
+ * password rules and a "Passwords don't match" error on `confirmPassword`
+ */
+export function withPasswordConfirmation<T extends z.ZodRawShape>(shape: T) {
+  type Passwords = { password: string; confirmPassword: string }
+  return z
+    .object({ ...shape, password: passwordSchema, confirmPassword: z.string() })
+    // The generic shape hides the two fields from inference; they are always there
+    .refine(data => (data as Passwords).password === (data as Passwords).confirmPassword, {
+      message: "Passwords don't match",
+      path: ['confirmPassword'],
+    })
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { redact, REDACTED } from './log-redaction';
+
+describe('redact', () => {
+  it('hides secrets under sensitive keys', () => {
+    expect(redact({ token: 'abc', password: 'hunter2', razorpaySignature: 'sig' })).toEqual({
+      token: REDACTED,
+      password: REDACTED,
+      razorpaySignature: REDACTED,
+    });
+  });
+
+  it('hides token-like keys matched by their whole name', () => {
+    expect(
+      redact({
+        accessToken: 'a',
+        refresh_token: 'b',
+        adminToken: 'c',
+        Authorization: 'Bearer x',
+        'x-api-key': 'd',
+        clientSecret: 'e',
+        'set-cookie': 'f',
+        otp: '123456',
+      })
+    ).toEqual({
+      accessToken: REDACTED,
+      refresh_token: REDACTED,
+      adminToken: REDACTED,
+      Authorization: `Bearer ${REDACTED}`,
+      'x-api-key': REDACTED,
+      clientSecret: REDACTED,
+      'set-cookie': REDACTED,
+      otp: REDACTED,
+    });
+  });
+
+  it('keeps session state whose key only mentions a token or cookie', () => {
+    const state = { hasToken: true, tokenExpiresAt: 1767225600000, cookieConsent: 'accepted', requireToken: false };
+    expect(redact(state)).toEqual(state);
+  });
+
+  it('masks bearer tokens and emails in free text', () => {
+    expect(redact('Authorization: Bearer eyJ.abc.def for aarav@example.com')).toBe(
+      `Authorization: Bearer ${REDACTED} for a***@example.com`
+    );
+  });
+
+  it('keeps the last four digits of phone-like properties', () => {
+    expect(redact({ phone: '+91 98765 43210', mobile: 9876543210 })).toEqual({
+      phone: '***3210',
+      mobile: '***3210',
+    });
+  });
+
+  it('masks international numbers in free text', () => {
+    expect(redact('Call +919876543210 now')).toBe('Call ***3210 now');
+  });
+
+  it('leaves ids and millisecond timestamps alone', () => {
+    const entry = { id: 1234567890123, bookingId: '9876543210', at: 1760000000000, message: 'order 1760000000000' };
+    expect(redact(entry)).toEqual(entry);
+  });
+
+  it('walks nested objects and arrays without mutating the input', () => {
+    const input = { users: [{ email: 'sneha@example.com', auth: { token: 't' } }] };
+    const output = redact(input);
+    expect(output).toEqual({ users: [{ email: 's***@example.com', auth: { token: REDACTED } }] });
+    expect(input.users[0].email).toBe('sneha@example.com');
+  });
+
+  it('handles circular references', () => {
+    const node: Record<string, unknown> = { password: 'x' };
+    node.self = node;
+    const output = redact(node) as Record<string, unknown>;
+    expect(output.password).toBe(REDACTED);
+    expect(output.self).toBe(output);
+  });
+
+  it('returns the value as is without rules', () => {
+    const value = { password: 'x' };
+    expect(redact(value, [])).toBe(value);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Log Redaction
+ * Masks secrets and personal data in log messages and payloads before the
+ * logger prints or ships them
+ */
+
+export interface RedactionRule {
+  name: string;
+  // Properties whose value is masked, matched against the property name
+  keys?: RegExp;
+  // Text masked inside any string value or log message; must be a global regex
+  pattern?: RegExp;
+  // Partial mask for values under matching `keys`, instead of hiding them whole; defaults to `pattern`
+  valuePattern?: RegExp;
+  // Replacement for a `pattern` match; defaults to REDACTED
+  mask?: (match: string) => string;
+}
+
+export const REDACTED = '[REDACTED]';
+
+// Keeps the first character and the domain so support can still tell accounts apart
+const maskEmail = (email: string) => {
+  const [local, domain] = email.split('@');
+  return `${local.charAt(0)}***@${domain}`;
+};
+
+// Keeps the last four digits
+const maskPhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return `***${digits.slice(-4)}`;
+};
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: 'token',
+    // Whole key names only, so state like `hasToken`, `tokenExpiresAt` or `cookieConsent` stays readable
+    keys: /^(?:(?:access|refresh|id|admin|auth|session|reset|new)[-_]?)?token$|^authorization$|^(?:(?:client|key)[-_]?)?secret$|^(?:x-)?api[-_]?key$|^(?:set-)?cookie$|^otp$/i,
+    pattern: /\bBearer\s+[\w.~+/-]+=*/gi,
+    mask: () => `Bearer ${REDACTED}`,
+  },
+  {
+    name: 'password',
+    keys: /password/i,
+  },
+  {
+    name: 'razorpaySignature',
+    keys: /signature/i,
+  },
+  {
+    name: 'email',
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+    mask: maskEmail,
+  },
+  {
+    name: 'phone',
+    keys: /phone|mobile/i,
+    // 10 to 13 digits with optional separators, not part of a longer word or number
+    valuePattern: /(?:\+|\b)\d(?:[ -]?\d){9,12}\b/g,
+    // Free text only masks international numbers; bare digit runs there are usually ids or timestamps
+    pattern: /\+\d(?:[ -]?\d){9,12}\b/g,
+    mask: maskPhone,
+  },
+];
+
+function redactString(value: string, rules: RedactionRule[]): string {
+  return rules.reduce(
+    (text, rule) => (rule.pattern ? text.replace(rule.pattern, match => rule.mask?.(match) ?? REDACTED) : text),
+    value
+  );
+}
+
+// Values under a matching key keep the rule's partial mask when it applies, otherwise are hidden whole
+function maskValue(value: unknown, rule: RedactionRule): unknown {
+  if (value === undefined || value === null || value === '') return value;
+  const pattern = rule.valuePattern ?? rule.pattern;
+  if (pattern && (typeof value === 'string' || typeof value === 'number')) {
+    const text = String(value);
+    const masked = text.replace(pattern, match => rule.mask?.(match) ?? REDACTED);
+    if (masked !== text) return masked;
+  }
+  return REDACTED;
+}
+
+function redactValue(value: unknown, rules: RedactionRule[], seen: WeakMap<object, unknown>): unknown {
+  if (typeof value === 'string') return redactString(value, rules);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date || value instanceof Blob) return value;
+  if (seen.has(value)) return seen.get(value);
+
+  if (typeof Headers !== 'undefined' && value instanceof Headers) {
+    return redactValue(Object.fromEntries(value.entries()), rules, seen);
+  }
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    seen.set(value, copy);
+    value.forEach(item => copy.push(redactValue(item, rules, seen)));
+    return copy;
+  }
+
+  const copy: Record<string, unknown> = {};
+  seen.set(value, copy);
+  // Errors keep their message and stack, which are not own enumerable properties
+  if (value instanceof Error) {
+    copy.name = value.name;
+    copy.message = redactString(value.message, rules);
+    if (value.stack) copy.stack = redactString(value.stack, rules);
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const keyRule = rules.find(rule => rule.keys?.test(key));
+    copy[key] = keyRule ? maskValue(item, keyRule) : redactValue(item, rules, seen);
+  }
+  return copy;
+}
+
+/**
+ * Returns a copy of `value` with every rule applied: properties matching a
+ * rule's `keys` are masked whole, and string values anywhere in the structure
+ * have the rule's `pattern` matches masked. The input is never mutated.
+ */
+export function redact<T>(value: T, rules: RedactionRule[] = DEFAULT_REDACTION_RULES): T {
+  if (!rules.length) return value;
+  return redactValue(value, rules, new WeakMap()) as T;
+}
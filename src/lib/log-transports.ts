@@ -0,0 +1,251 @@
+/**
+ * Log Transports
+ * Destinations for logger entries: the console, an in-memory ring buffer and
+ * a batched HTTP sink for shipping browser logs to a collector
+ */
+
+export type LogLevelName = 'debug' | 'info' | 'warn' | 'error';
+
+// Lowest to highest; a minimum level lets through itself and everything after it
+export const LOG_LEVEL_ORDER: LogLevelName[] = ['debug', 'info', 'warn', 'error'];
+
+export const isLogLevel = (value: unknown): value is LogLevelName =>
+  LOG_LEVEL_ORDER.includes(value as LogLevelName);
+
+export const meetsLevel = (level: LogLevelName, minLevel: LogLevelName) =>
+  LOG_LEVEL_ORDER.indexOf(level) >= LOG_LEVEL_ORDER.indexOf(minLevel);
+
+export interface LogEntry {
+  level: LogLevelName;
+  message: string;
+  data?: unknown;
+  timestamp: string;
+}
+
+export interface LogTransport {
+  name: string;
+  // Entries below this level are not passed to the transport
+  minLevel?: LogLevelName;
+  write(entry: LogEntry): void;
+}
+
+export function consoleTransport(): LogTransport {
+  return {
+    name: 'console',
+    write({ level, message, data, timestamp }) {
+      const prefix = `[${timestamp}] [${level.toUpperCase()}]`;
+
+      if (data) {
+        console.log(`${prefix} ${message}`, data);
+      } else {
+        console.log(`${prefix} ${message}`);
+      }
+    },
+  };
+}
+
+/**
+ * Keeps the last `capacity` entries in memory for diagnostics screens and
+ * error reports
+ */
+export class MemoryTransport implements LogTransport {
+  readonly name = 'memory';
+  private buffer: LogEntry[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(private capacity = 200, public minLevel: LogLevelName = 'debug') {}
+
+  write(entry: LogEntry) {
+    this.buffer.push(entry);
+    if (this.buffer.length > this.capacity) {
+      this.buffer.splice(0, this.buffer.length - this.capacity);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Oldest first
+  entries(): LogEntry[] {
+    return [...this.buffer];
+  }
+
+  clear() {
+    this.buffer = [];
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Returns the unsubscribe function
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+export interface HttpTransportOptions {
+  endpoint: string;
+  minLevel?: LogLevelName;
+  // Entries per request
+  batchSize?: number;
+  flushIntervalMs?: number;
+  // Share of sessions that ship non-error entries; errors are always sent
+  sampleRate?: number;
+  // Entries kept while the collector is unreachable; the oldest are dropped first
+  maxQueue?: number;
+  maxBackoffMs?: number;
+}
+
+// sendBeacon rejects payloads over 64KB
+const BEACON_LIMIT_BYTES = 60_000;
+
+// JSON.stringify that survives the circular structures redaction preserves
+function safeStringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (item && typeof item === 'object') {
+      if (seen.has(item)) return '[Circular]';
+      seen.add(item);
+    }
+    return item;
+  });
+}
+
+/**
+ * Posts entries to a collector in batches of `{ entries, context }`. A failed
+ * post is retried with exponential backoff, and whatever is queued when the
+ * page is hidden or unloaded goes out with `navigator.sendBeacon`.
+ * The transport never logs through the logger, which would feed itself.
+ */
+export class HttpTransport implements LogTransport {
+  readonly name = 'http';
+  readonly minLevel: LogLevelName;
+  private queue: LogEntry[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sending = false;
+  private failures = 0;
+  private sampled: boolean;
+  private options: Required<Omit<HttpTransportOptions, 'minLevel'>>;
+
+  constructor({ minLevel = 'warn', ...options }: HttpTransportOptions) {
+    this.minLevel = minLevel;
+    this.options = {
+      batchSize: 20,
+      flushIntervalMs: 5000,
+      sampleRate: 1,
+      maxQueue: 500,
+      maxBackoffMs: 60_000,
+      ...options,
+    };
+    // Sampled per session so a sampled-in session's trail stays complete
+    this.sampled = Math.random() < this.options.sampleRate;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.flushWithBeacon());
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') this.flushWithBeacon();
+      });
+    }
+  }
+
+  write(entry: LogEntry) {
+    if (entry.level !== 'error' && !this.sampled) return;
+
+    this.queue.push(entry);
+    if (this.queue.length > this.options.maxQueue) {
+      this.queue.splice(0, this.queue.length - this.options.maxQueue);
+    }
+
+    if (this.queue.length >= this.options.batchSize && this.failures === 0) {
+      void this.flush();
+    } else {
+      this.schedule(this.options.flushIntervalMs);
+    }
+  }
+
+  // Sends everything queued, one batch at a time; stops at the first failure
+  async flush(): Promise<void> {
+    if (this.sending) return;
+    this.clearTimer();
+    this.sending = true;
+
+    try {
+      while (this.queue.length) {
+        const batch = this.queue.splice(0, this.options.batchSize);
+        if (await this.post(batch)) {
+          this.failures = 0;
+          continue;
+        }
+
+        // Put the batch back in front of anything logged meanwhile and back off
+        this.queue.unshift(...batch);
+        this.queue.splice(this.options.maxQueue);
+        this.failures++;
+        const backoff = Math.min(
+          this.options.flushIntervalMs * 2 ** this.failures,
+          this.options.maxBackoffMs
+        );
+        this.schedule(backoff);
+        return;
+      }
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  private async post(entries: LogEntry[]): Promise<boolean> {
+    try {
+      const response = await fetch(this.options.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: this.payload(entries),
+        keepalive: true,
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private flushWithBeacon() {
+    if (!this.queue.length || typeof navigator === 'undefined' || !navigator.sendBeacon) return;
+    this.clearTimer();
+
+    while (this.queue.length) {
+      let count = Math.min(this.options.batchSize, this.queue.length);
+      let body = this.payload(this.queue.slice(0, count));
+      while (body.length > BEACON_LIMIT_BYTES && count > 1) {
+        count = Math.ceil(count / 2);
+        body = this.payload(this.queue.slice(0, count));
+      }
+
+      const blob = new Blob([body], { type: 'application/json' });
+      // Refused (too many bytes in flight); keep the rest for when the page is shown again
+      if (!navigator.sendBeacon(this.options.endpoint, blob)) {
+        this.schedule(this.options.flushIntervalMs);
+        return;
+      }
+      this.queue.splice(0, count);
+    }
+  }
+
+  private payload(entries: LogEntry[]): string {
+    return safeStringify({
+      entries,
+      context: typeof window === 'undefined'
+        ? undefined
+        : { url: window.location.pathname, userAgent: navigator.userAgent },
+    });
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delayMs);
+  }
+
+  private clearTimer() {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const blockedStorage = {
+  getItem: () => {
+    throw new DOMException('The operation is insecure.', 'SecurityError');
+  },
+  setItem: () => {
+    throw new DOMException('The operation is insecure.', 'SecurityError');
+  },
+};
+
+describe('logger with blocked storage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('loads and keeps working when localStorage throws', async () => {
+    vi.stubGlobal('window', { localStorage: blockedStorage, location: { href: 'http://localhost/' } });
+
+    const { logger } = await import('./logger');
+
+    expect(logger.getLevel()).toMatch(/^(debug|info|warn|error)$/);
+    expect(() => logger.setLevel('warn', true)).not.toThrow();
+    expect(logger.getLevel()).toBe('warn');
+  });
+});
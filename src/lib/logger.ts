@@ -3,6 +3,18 @@
  * Provides structured logging that can be easily disabled in production
  */
 
+import { DEFAULT_REDACTION_RULES, redact, type RedactionRule } from './log-redaction';
+import {
+  consoleTransport,
+  HttpTransport,
+  isLogLevel,
+  meetsLevel,
+  MemoryTransport,
+  type LogEntry,
+  type LogLevelName,
+  type LogTransport,
+} from './log-transports';
+
 export interface LogLevel {
   DEBUG: 'debug';
   INFO: 'info';  
@@ -17,27 +29,81 @@ export const LOG_LEVELS: LogLevel = {
   ERROR: 'error'
 };
 
+const requestIdSuffix = (requestId?: string) => (requestId ? ` [request ${requestId}]` : '');
+
+// localStorage override so support can turn on debug logs in a user's browser
+const LEVEL_STORAGE_KEY = 'logLevel';
+
+function initialLevel(): LogLevelName {
+  if (typeof window !== 'undefined') {
+    // Storage can be blocked (private mode, sandboxed iframes); this runs at import, so it must not throw
+    try {
+      const stored = window.localStorage.getItem(LEVEL_STORAGE_KEY);
+      if (isLogLevel(stored)) return stored;
+    } catch {}
+  }
+  const configured = process.env.NEXT_PUBLIC_LOG_LEVEL;
+  if (isLogLevel(configured)) return configured;
+  // In development, enable debug logging
+  return process.env.NODE_ENV === 'development' ? 'debug' : 'info';
+}
+
 class Logger {
-  private isDevelopment = process.env.NODE_ENV === 'development';
-  private enabledLevels = new Set(['error', 'warn', 'info']);
+  private level: LogLevelName = initialLevel();
+  private transports: LogTransport[] = [consoleTransport()];
+  private redactionRules: RedactionRule[] = DEFAULT_REDACTION_RULES;
+
+  getLevel(): LogLevelName {
+    return this.level;
+  }
 
-  constructor() {
-    // In development, enable debug logging
-    if (this.isDevelopment) {
-      this.enabledLevels.add('debug');
+  // `persist` keeps the level across reloads in this browser
+  setLevel(level: LogLevelName, persist = false) {
+    this.level = level;
+    if (persist && typeof window !== 'undefined') {
+      try {
+        window.localStorage.setItem(LEVEL_STORAGE_KEY, level);
+      } catch {}
     }
   }
 
-  private log(level: string, message: string, data?: unknown) {
-    if (!this.enabledLevels.has(level)) return;
+  // Replaces any transport with the same name
+  addTransport(transport: LogTransport) {
+    this.transports = [...this.transports.filter(t => t.name !== transport.name), transport];
+  }
 
-    const timestamp = new Date().toISOString();
-    const prefix = `[${timestamp}] [${level.toUpperCase()}]`;
-    
-    if (data) {
-      console.log(`${prefix} ${message}`, data);
-    } else {
-      console.log(`${prefix} ${message}`);
+  removeTransport(name: string) {
+    this.transports = this.transports.filter(t => t.name !== name);
+  }
+
+  // Replaces the redaction rules; pass [] to log everything as is
+  setRedactionRules(rules: RedactionRule[]) {
+    this.redactionRules = rules;
+  }
+
+  addRedactionRule(rule: RedactionRule) {
+    this.redactionRules = [...this.redactionRules, rule];
+  }
+
+  private log(level: LogLevelName, rawMessage: string, rawData?: unknown) {
+    if (!meetsLevel(level, this.level)) return;
+
+    // Redact before anything leaves the logger
+    const entry: LogEntry = {
+      level,
+      message: redact(rawMessage, this.redactionRules),
+      data: redact(rawData, this.redactionRules),
+      timestamp: new Date().toISOString(),
+    };
+
+    for (const transport of this.transports) {
+      if (transport.minLevel && !meetsLevel(level, transport.minLevel)) continue;
+      try {
+        transport.write(entry);
+      } catch (error) {
+        // A broken transport must not break the caller, nor log through itself
+        console.error(`Log transport "${transport.name}" failed`, error);
+      }
     }
   }
 
@@ -57,17 +123,17 @@ class Logger {
     this.log(LOG_LEVELS.ERROR, message, data);
   }
 
-  // API specific logging
-  apiRequest(method: string, url: string, config?: unknown) {
-    this.debug(`🌐 API Request: ${method} ${url}`, config);
+  // API specific logging; `requestId` is the X-Request-Id sent with the call
+  apiRequest(method: string, url: string, config?: unknown, requestId?: string) {
+    this.debug(`🌐 API Request: ${method} ${url}${requestIdSuffix(requestId)}`, config);
   }
 
-  apiResponse(status: number, url: string, data?: unknown) {
-    this.debug(`📡 API Response: ${status} ${url}`, data);
+  apiResponse(status: number, url: string, data?: unknown, requestId?: string) {
+    this.debug(`📡 API Response: ${status} ${url}${requestIdSuffix(requestId)}`, data);
   }
 
-  apiError(error: unknown, context?: string) {
-    this.error(`❌ API Error${context ? ` (${context})` : ''}`, error);
+  apiError(error: unknown, context?: string, requestId?: string) {
+    this.error(`❌ API Error${context ? ` (${context})` : ''}${requestIdSuffix(requestId)}`, error);
   }
 
   // Auth specific logging  
@@ -84,6 +150,20 @@ class Logger {
 // Export singleton instance
 export const logger = new Logger();
 
+// Recent entries that passed the logger level, e.g. for a diagnostics screen or an error report
+export const logBuffer = new MemoryTransport();
+logger.addTransport(logBuffer);
+
+// Ship browser logs to a collector when one is configured
+const remoteEndpoint = process.env.NEXT_PUBLIC_LOG_ENDPOINT;
+if (remoteEndpoint && typeof window !== 'undefined') {
+  const sampleRate = Number(process.env.NEXT_PUBLIC_LOG_SAMPLE_RATE || 1);
+  logger.addTransport(new HttpTransport({
+    endpoint: remoteEndpoint,
+    sampleRate: Number.isFinite(sampleRate) ? sampleRate : 1,
+  }));
+}
+
 // Convenience functions for compatibility
 export const logDebug = (message: string, data?: unknown) => logger.debug(message, data);
 export const logInfo = (message: string, data?: unknown) => logger.info(message, data);
@@ -0,0 +1,1115 @@
+/**
+ * Mock Backend
+ * In-process implementation of every endpoint ApiClient and AdminApiClient call,
+ * selected with NEXT_PUBLIC_API_MOCK=true. State lives in memory and is reseeded
+ * from mock-fixtures.ts on every page load.
+ */
+
+import type { ApiResponse, Booking, BookingStatus, ConsultantType, Payment } from './api'
+import type {
+  EmailVerification,
+  NotificationPreferences,
+  OperationBody,
+  PasswordChange,
+  PasswordReset,
+  PasswordResetProof,
+  ProfileUpdate,
+} from './api-contract'
+import { toDownloadProgress, type FileDownload } from './api-download'
+import { createApiFailure, failureFromResponse, type ApiErrorCode, type ApiFieldError } from './api-errors'
+import { mockMiddleware, type ApiMiddleware, type ApiRequestContext, type MockRoute } from './api-middleware'
+import { hasPermission, type AdminPermission } from './admin-permissions'
+import type { SessionScope } from './auth-utils'
+import { fakeRazorpaySignature } from './fake-razorpay'
+import { MIN_PASSWORD_LENGTH } from './form-schemas'
+import { logger } from './logger'
+import {
+  createMockDatabase,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  MOCK_BOOKING_AMOUNT,
+  type MockDatabase,
+  type MockSession,
+  type MockStudent,
+} from './mock-fixtures'
+import { generateIdempotencyKey, sleep } from './utils'
+
+export function isMockBackendEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_API_MOCK === 'true'
+}
+
+// Simulated network latency so loading states stay visible
+const MOCK_LATENCY_MS = 250
+const TOKEN_LIFETIME_MS = 60 * 60 * 1000 // 1 hour
+const DAY_MS = 24 * 60 * 60 * 1000
+const RESET_LIFETIME_MS = 30 * 60 * 1000 // 30 minutes
+const VERIFICATION_LIFETIME_MS = 24 * 60 * 60 * 1000 // 1 day
+// Wrong guesses before a reset or verification code is burned
+const MAX_CODE_ATTEMPTS = 5
+
+type Params = Record<string, string>
+type Handler = (ctx: ApiRequestContext, params: Params) => ApiResponse<unknown> | Promise<ApiResponse<unknown>>
+
+const ok = <T>(data: T, message?: string): ApiResponse<T> => ({ success: true, data, message })
+
+// Failures go through the same mapping as real backend responses
+const fail = (status: number, message: string, code?: ApiErrorCode, details?: ApiFieldError[]) =>
+  failureFromResponse(status, { message, code, details })
+
+// Binary endpoints answer the way fetchHandler does for responseType 'blob'
+function file(ctx: ApiRequestContext, content: string, contentType: string, filename: string): ApiResponse<FileDownload> {
+  const blob = new Blob([content], { type: contentType })
+  ctx.options.onDownloadProgress?.(toDownloadProgress(blob.size, blob.size))
+  return ok({ blob, filename, contentType })
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+function readBody<T>(ctx: ApiRequestContext): Partial<T> {
+  if (typeof ctx.init.body !== 'string') return {}
+  try {
+    return JSON.parse(ctx.init.body) as Partial<T>
+  } catch {
+    return {}
+  }
+}
+
+const readQuery = (ctx: ApiRequestContext) => new URLSearchParams(ctx.endpoint.split('?')[1] || '')
+
+// Tokens are unsigned JWTs so getTokenExpiry and the expiry warning work as usual
+interface MockTokenClaims {
+  sub: number
+  scope: SessionScope
+  exp: number // seconds
+  sid: string // MockSession id
+}
+
+const base64url = (value: string) =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+function issueToken(scope: SessionScope, userId: number, sessionId: string): string {
+  const claims: MockTokenClaims = {
+    sub: userId,
+    scope,
+    exp: Math.floor((Date.now() + TOKEN_LIFETIME_MS) / 1000),
+    sid: sessionId,
+  }
+  return `${base64url(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}.mock`
+}
+
+function readToken(ctx: ApiRequestContext): MockTokenClaims | null {
+  const header = ctx.headers.Authorization || ctx.headers.authorization
+  const payload = header?.replace(/^Bearer\s+/i, '').split('.')[1]
+  if (!payload) return null
+  try {
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))) as MockTokenClaims
+  } catch {
+    return null
+  }
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const page = Math.max(1, Number(query.get('page')) || 1)
+  const limit = Math.max(1, Number(query.get('limit')) || 10)
+  return {
+    items: items.slice((page - 1) * limit, page * limit),
+    pagination: {
+      page,
+      limit,
+      total: items.length,
+      totalPages: Math.max(1, Math.ceil(items.length / limit)),
+    },
+  }
+}
+
+function inDateRange(createdAt: string, query: URLSearchParams): boolean {
+  const time = new Date(createdAt).getTime()
+  const from = query.get('dateFrom')
+  const to = query.get('dateTo')
+  if (from && time < new Date(from).getTime()) return false
+  // dateTo is inclusive of the whole day
+  if (to && time >= new Date(to).getTime() + DAY_MS) return false
+  return true
+}
+
+function withoutPassword<T extends { password: string }>(account: T): Omit<T, 'password'> {
+  const copy: Partial<T> = { ...account }
+  delete copy.password
+  return copy as Omit<T, 'password'>
+}
+
+const newestFirst = <T extends { createdAt: string }>(a: T, b: T) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+
+const PAID_STATUSES: BookingStatus[] = ['SUCCESS', 'COMPLETED']
+
+// Length of the current and previous window used for growth figures
+const PERIOD_DAYS: Record<string, number> = { daily: 1, weekly: 7, monthly: 30, yearly: 365 }
+
+function growthPercent(current: number, previous: number): number {
+  if (previous === 0) return current > 0 ? 100 : 0
+  return Math.round(((current - previous) / previous) * 100)
+}
+
+// Daily totals for the last 14 days
+function dailySeries<T>(items: T[], getDate: (item: T) => string, getValue: (item: T) => number, now: number) {
+  return Array.from({ length: 14 }, (_, index) => {
+    const day = new Date(now - (13 - index) * DAY_MS).toISOString().split('T')[0]
+    const value = items
+      .filter(item => getDate(item).startsWith(day))
+      .reduce((total, item) => total + getValue(item), 0)
+    return { date: day, value }
+  })
+}
+
+/**
+ * Builds the route table over `db`. Exposed separately from the middleware so
+ * the routes can be reused, e.g. with a different database in tests.
+ */
+export function createMockRoutes(db: MockDatabase): MockRoute[] {
+  let nextStudentId = Math.max(0, ...db.students.map(student => student.id)) + 1
+  let nextBookingId = Math.max(0, ...db.bookings.map(booking => booking.id)) + 1
+  let nextPaymentId = Math.max(0, ...db.payments.map(payment => payment.id)) + 1
+
+  const publicStudent = (student: MockStudent) => withoutPassword(student)
+  const findStudent = (id: number) => db.students.find(student => student.id === id)
+  const findBooking = (id: number) => db.bookings.find(booking => booking.id === id)
+
+  const withRelations = (booking: Booking): Booking => {
+    const student = findStudent(booking.studentId)
+    return {
+      ...booking,
+      student: student && publicStudent(student),
+      payment: db.payments.find(payment => payment.bookingId === booking.id),
+    }
+  }
+
+  // Records a sign-in from this browser and returns its token
+  function startSession(scope: SessionScope, accountId: number): string {
+    const timestamp = new Date().toISOString()
+    const session: MockSession = {
+      id: generateIdempotencyKey(),
+      scope,
+      accountId,
+      userAgent: typeof navigator === 'undefined' ? undefined : navigator.userAgent,
+      ipAddress: '127.0.0.1',
+      createdAt: timestamp,
+      lastActiveAt: timestamp,
+      revoked: false,
+    }
+    db.sessions.push(session)
+    return issueToken(scope, accountId, session.id)
+  }
+
+  // The session a token belongs to. Sessions are lost when the page reloads and
+  // the database is reseeded, so tokens from before the reload get theirs back.
+  function findSession(claims: MockTokenClaims): MockSession | undefined {
+    if (!claims.sid) return undefined
+    let session = db.sessions.find(item => item.id === claims.sid)
+    if (!session) {
+      const timestamp = new Date().toISOString()
+      session = {
+        id: claims.sid,
+        scope: claims.scope,
+        accountId: claims.sub,
+        userAgent: typeof navigator === 'undefined' ? undefined : navigator.userAgent,
+        createdAt: timestamp,
+        lastActiveAt: timestamp,
+        revoked: false,
+      }
+      db.sessions.push(session)
+    }
+    return session
+  }
+
+  // Resolves the caller's id for `scope`, or the failure the real backend would send
+  function authenticate(ctx: ApiRequestContext, scope: SessionScope): number | ApiResponse<never> {
+    const claims = readToken(ctx)
+    if (!claims) return fail(401, 'Authentication required')
+    if (claims.exp * 1000 <= Date.now()) return fail(401, 'Token expired')
+    if (claims.scope !== scope) return fail(403, scope === 'admin' ? 'Admin access required' : 'Student access required')
+
+    const exists = scope === 'admin'
+      ? db.admins.some(admin => admin.id === claims.sub)
+      : db.students.some(student => student.id === claims.sub && student.isActive)
+    if (!exists) return fail(401, 'Account no longer exists')
+
+    const session = findSession(claims)
+    if (session?.revoked) return fail(401, 'This session was signed out')
+    if (session) session.lastActiveAt = new Date().toISOString()
+    return claims.sub
+  }
+
+  // Signs out the account's sessions, except `keepId` when given
+  const revokeSessions = (scope: SessionScope, accountId: number, keepId?: string) =>
+    db.sessions.forEach(session => {
+      if (session.scope === scope && session.accountId === accountId && session.id !== keepId) session.revoked = true
+    })
+
+  const asStudent = (handler: (ctx: ApiRequestContext, params: Params, studentId: number) => ReturnType<Handler>): Handler =>
+    (ctx, params) => {
+      const auth = authenticate(ctx, 'student')
+      return typeof auth === 'number' ? handler(ctx, params, auth) : auth
+    }
+
+  // Like the real backend, the admin's role must include `permission`
+  const asAdmin = (handler: Handler, permission?: AdminPermission): Handler =>
+    (ctx, params) => {
+      const auth = authenticate(ctx, 'admin')
+      if (typeof auth !== 'number') return auth
+      const role = db.admins.find(admin => admin.id === auth)?.role
+      if (permission && !hasPermission(role, permission)) {
+        return fail(403, "You don't have permission to perform this action.")
+      }
+      return handler(ctx, params)
+    }
+
+  const route = (method: string, path: string, handler: Handler): MockRoute => ({ method, path, handler })
+
+  // Auth
+
+  const adminLogin: Handler = (ctx) => {
+    const { email, password } = readBody<{ email: string; password: string }>(ctx)
+    const account = db.admins.find(item => item.email === email?.toLowerCase())
+    if (!account || account.password !== password) {
+      return fail(401, 'Invalid email or password', 'INVALID_CREDENTIALS')
+    }
+    return ok({ admin: withoutPassword(account), token: startSession('admin', account.id) }, 'Login successful')
+  }
+
+  // Password reset. Links and codes are printed to the console instead of emailed.
+
+  interface ResetGrant {
+    scope: SessionScope
+    accountId: number
+    expiresAt: number
+  }
+  // Keyed by link token, and by `scope:email` for codes
+  const resetTokens = new Map<string, ResetGrant>()
+  const resetCodes = new Map<string, ResetGrant & { code: string; attempts: number }>()
+
+  const findAccount = (scope: SessionScope, email?: string) => {
+    const normalized = email?.trim().toLowerCase()
+    return scope === 'admin'
+      ? db.admins.find(admin => admin.email === normalized)
+      : db.students.find(student => student.email === normalized && student.isActive)
+  }
+
+  // The grant a token or email + code proves, or null when it is unknown, used up or expired
+  function findResetGrant(scope: SessionScope, proof: { token?: string; email?: string; otp?: string }): ResetGrant | null {
+    if (proof.token) {
+      const grant = resetTokens.get(proof.token)
+      return grant && grant.scope === scope && grant.expiresAt > Date.now() ? grant : null
+    }
+
+    const key = `${scope}:${proof.email?.trim().toLowerCase()}`
+    const grant = resetCodes.get(key)
+    if (!grant || grant.expiresAt <= Date.now()) return null
+    if (grant.code !== proof.otp?.trim()) {
+      // Too many wrong guesses burn the code
+      if (++grant.attempts >= MAX_CODE_ATTEMPTS) resetCodes.delete(key)
+      return null
+    }
+    return grant
+  }
+
+  function resetHandlers(scope: SessionScope): { forgot: Handler; validate: Handler; reset: Handler } {
+    const resetPage = scope === 'admin' ? '/admin/reset-password' : '/reset-password'
+
+    return {
+      forgot: (ctx) => {
+        const { email, method = 'link' } = readBody<OperationBody<'POST /auth/forgot-password'>>(ctx)
+        const account = findAccount(scope, email)
+        if (account) {
+          const grant: ResetGrant = { scope, accountId: account.id, expiresAt: Date.now() + RESET_LIFETIME_MS }
+          if (method === 'otp') {
+            const code = String(Math.floor(100000 + Math.random() * 900000))
+            resetCodes.set(`${scope}:${account.email}`, { ...grant, code, attempts: 0 })
+            logger.info(`🧪 Mock: password reset code for ${account.email} is ${code}`)
+          } else {
+            const token = generateIdempotencyKey()
+            resetTokens.set(token, grant)
+            logger.info(`🧪 Mock: password reset link ${window.location.origin}${resetPage}?token=${token}`)
+          }
+        }
+        // Same answer either way so the form cannot be used to probe for accounts
+        return ok({ message: 'If an account exists for this email, we have sent reset instructions' })
+      },
+
+      validate: (ctx) => {
+        const grant = findResetGrant(scope, readBody<PasswordResetProof>(ctx))
+        return ok(grant ? { valid: true, expiresAt: new Date(grant.expiresAt).toISOString() } : { valid: false })
+      },
+
+      reset: (ctx) => {
+        const body = readBody<PasswordReset>(ctx)
+        if (!body.password || body.password.length < MIN_PASSWORD_LENGTH) {
+          return fail(400, 'Validation failed', undefined, [
+            { field: 'password', message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+          ])
+        }
+
+        const grant = findResetGrant(scope, body)
+        const account = grant && (scope === 'admin'
+          ? db.admins.find(admin => admin.id === grant.accountId)
+          : findStudent(grant.accountId))
+        if (!grant || !account) {
+          const message = 'This reset link or code is invalid or has expired'
+          return fail(400, message, 'VALIDATION_ERROR', [{ field: body.token ? 'token' : 'otp', message }])
+        }
+
+        account.password = body.password
+        if ('updatedAt' in account) account.updatedAt = new Date().toISOString()
+        // Every outstanding link and code for the account stops working
+        for (const [token, item] of resetTokens) {
+          if (item.scope === scope && item.accountId === account.id) resetTokens.delete(token)
+        }
+        resetCodes.delete(`${scope}:${account.email}`)
+        revokeSessions(scope, account.id)
+        return ok({ message: 'Password updated. You can now sign in with your new password.' })
+      },
+    }
+  }
+
+  const studentReset = resetHandlers('student')
+  const adminReset = resetHandlers('admin')
+
+  // Contact verification. Links and codes are printed to the console instead of emailed or texted.
+
+  interface VerificationCode {
+    code: string
+    attempts: number
+    expiresAt: number
+  }
+  // Link tokens map to the student and the address they were sent to, so changing the email voids them
+  const emailTokens = new Map<string, { studentId: number; email: string; expiresAt: number }>()
+  // Keyed by student id
+  const emailCodes = new Map<number, VerificationCode & { email: string }>()
+  const phoneCodes = new Map<number, VerificationCode & { phone: string }>()
+
+  const issueCode = () => String(Math.floor(100000 + Math.random() * 900000))
+
+  // Checks `otp` against the pending code, burning it after too many wrong guesses
+  function checkCode<T extends VerificationCode>(codes: Map<number, T>, studentId: number, otp?: string): T | null {
+    const pending = codes.get(studentId)
+    if (!pending || pending.expiresAt <= Date.now()) return null
+    if (pending.code !== otp?.trim()) {
+      if (++pending.attempts >= MAX_CODE_ATTEMPTS) codes.delete(studentId)
+      return null
+    }
+    codes.delete(studentId)
+    return pending
+  }
+
+  const invalidCode = (field: 'token' | 'otp') => {
+    const message = field === 'token'
+      ? 'This verification link is invalid or has expired'
+      : 'This code is incorrect or has expired'
+    return fail(400, message, 'VALIDATION_ERROR', [{ field, message }])
+  }
+
+  const sendEmailVerification = asStudent((ctx, _params, studentId) => {
+    const student = findStudent(studentId)!
+    if (student.emailVerified) return ok({ message: 'Your email is already verified' })
+
+    const { method = 'link' } = readBody<OperationBody<'POST /auth/verify/email/send'>>(ctx)
+    const expiresAt = Date.now() + VERIFICATION_LIFETIME_MS
+    if (method === 'otp') {
+      const code = issueCode()
+      emailCodes.set(studentId, { code, attempts: 0, expiresAt, email: student.email })
+      logger.info(`🧪 Mock: email verification code for ${student.email} is ${code}`)
+    } else {
+      const token = generateIdempotencyKey()
+      emailTokens.set(token, { studentId, email: student.email, expiresAt })
+      logger.info(`🧪 Mock: email verification link ${window.location.origin}/verify-email?token=${token}`)
+    }
+    return ok({ message: `We sent a verification ${method === 'otp' ? 'code' : 'link'} to ${student.email}` })
+  })
+
+  // The link works without signing in; the code needs the session it was sent to
+  const verifyEmail: Handler = (ctx, params) => {
+    const { token, otp } = readBody<EmailVerification>(ctx)
+
+    if (token) {
+      const grant = emailTokens.get(token)
+      const student = grant && grant.expiresAt > Date.now() ? findStudent(grant.studentId) : undefined
+      if (!grant || !student || student.email !== grant.email) return invalidCode('token')
+      emailTokens.delete(token)
+      student.emailVerified = true
+      student.updatedAt = new Date().toISOString()
+      return ok({ student: publicStudent(student) }, 'Email verified')
+    }
+
+    return asStudent((_ctx, _params, studentId) => {
+      const student = findStudent(studentId)!
+      const pending = checkCode(emailCodes, studentId, otp)
+      if (!pending || pending.email !== student.email) return invalidCode('otp')
+      student.emailVerified = true
+      student.updatedAt = new Date().toISOString()
+      return ok({ student: publicStudent(student) }, 'Email verified')
+    })(ctx, params)
+  }
+
+  const sendPhoneVerification = asStudent((_ctx, _params, studentId) => {
+    const student = findStudent(studentId)!
+    if (student.phoneVerified) return ok({ message: 'Your phone number is already verified' })
+
+    const code = issueCode()
+    phoneCodes.set(studentId, { code, attempts: 0, expiresAt: Date.now() + VERIFICATION_LIFETIME_MS, phone: student.phone })
+    logger.info(`🧪 Mock: phone verification code for ${student.phone} is ${code}`)
+    return ok({ message: `We sent a code to ${student.phone}` })
+  })
+
+  const verifyPhone = asStudent((ctx, _params, studentId) => {
+    const student = findStudent(studentId)!
+    const { otp } = readBody<OperationBody<'POST /auth/verify/phone'>>(ctx)
+    const pending = checkCode(phoneCodes, studentId, otp)
+    if (!pending || pending.phone !== student.phone) return invalidCode('otp')
+    student.phoneVerified = true
+    student.updatedAt = new Date().toISOString()
+    return ok({ student: publicStudent(student) }, 'Phone number verified')
+  })
+
+  // Account settings
+
+  const updateProfile = asStudent((ctx, _params, studentId) => {
+    const student = findStudent(studentId)!
+    const updates = readBody<ProfileUpdate>(ctx)
+    const name = updates.name?.trim()
+    const email = updates.email?.trim().toLowerCase()
+    const phone = updates.phone?.trim()
+
+    const details: ApiFieldError[] = []
+    if (name !== undefined && name.length < 2) details.push({ field: 'name', message: 'Name must be at least 2 characters' })
+    if (email !== undefined && !/^\S+@\S+\.\S+$/.test(email)) details.push({ field: 'email', message: 'Invalid email address' })
+    if (phone !== undefined && !/^\d{10,13}$/.test(phone.replace(/\D/g, ''))) details.push({ field: 'phone', message: 'Enter a valid phone number' })
+    if (details.length) return fail(400, 'Validation failed', undefined, details)
+
+    if (email && db.students.some(item => item.email === email && item.id !== student.id)) {
+      return fail(409, 'An account with this email already exists')
+    }
+
+    // A new address has to be confirmed again before checkout
+    if (email && email !== student.email) {
+      student.email = email
+      student.emailVerified = false
+    }
+    if (phone && phone !== student.phone) {
+      student.phone = phone
+      student.phoneVerified = false
+    }
+    if (name) student.name = name
+    student.updatedAt = new Date().toISOString()
+    return ok({ student: publicStudent(student) }, 'Profile updated')
+  })
+
+  const changePassword = asStudent((ctx, _params, studentId) => {
+    const student = findStudent(studentId)!
+    const { currentPassword, newPassword } = readBody<PasswordChange>(ctx)
+    if (currentPassword !== student.password) {
+      return fail(400, 'Validation failed', 'VALIDATION_ERROR', [
+        { field: 'currentPassword', message: 'Current password is incorrect' },
+      ])
+    }
+    if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return fail(400, 'Validation failed', 'VALIDATION_ERROR', [
+        { field: 'newPassword', message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+      ])
+    }
+
+    student.password = newPassword
+    student.updatedAt = new Date().toISOString()
+    revokeSessions('student', studentId, readToken(ctx)!.sid)
+    return ok({ message: 'Password changed. Your other devices have been signed out.' })
+  })
+
+  const notificationPreferencesOf = (studentId: number) =>
+    db.notificationPreferences[studentId] ?? DEFAULT_NOTIFICATION_PREFERENCES
+
+  const updateNotificationPreferences = asStudent((ctx, _params, studentId) => {
+    const updates = readBody<NotificationPreferences>(ctx)
+    const current = notificationPreferencesOf(studentId)
+    // Unknown or non-boolean fields are ignored rather than stored
+    const preferences = Object.fromEntries(
+      Object.entries(current).map(([key, value]) => {
+        const update = updates[key as keyof NotificationPreferences]
+        return [key, typeof update === 'boolean' ? update : value]
+      })
+    ) as unknown as NotificationPreferences
+    db.notificationPreferences[studentId] = preferences
+    return ok({ preferences }, 'Notification preferences saved')
+  })
+
+  const listSessions = asStudent((ctx, _params, studentId) => {
+    const currentId = readToken(ctx)!.sid
+    const sessions = db.sessions
+      .filter(session => session.scope === 'student' && session.accountId === studentId && !session.revoked)
+      .sort((a, b) => new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime())
+      .map(({ id, userAgent, ipAddress, createdAt, lastActiveAt }) => ({
+        id,
+        userAgent,
+        ipAddress,
+        createdAt,
+        lastActiveAt,
+        current: id === currentId,
+      }))
+    return ok({ sessions })
+  })
+
+  const revokeSession = asStudent((_ctx, params, studentId) => {
+    const session = db.sessions.find(item =>
+      item.id === params.id && item.scope === 'student' && item.accountId === studentId && !item.revoked
+    )
+    if (!session) return fail(404, 'Session not found')
+    session.revoked = true
+    return ok({ message: 'Session signed out' })
+  })
+
+  const revokeOtherSessions = asStudent((ctx, _params, studentId) => {
+    revokeSessions('student', studentId, readToken(ctx)!.sid)
+    return ok({ message: 'Signed out of all other sessions' })
+  })
+
+  // Bookings
+
+  const listAdminBookings: Handler = (ctx) => {
+    const query = readQuery(ctx)
+    const status = query.get('status')
+    const consultantType = query.get('consultantType')
+    const search = query.get('search')?.toLowerCase()
+
+    const bookings = db.bookings
+      .map(withRelations)
+      .filter(booking => !status || booking.status === status)
+      .filter(booking => !consultantType || booking.consultantType === consultantType)
+      .filter(booking => inDateRange(booking.createdAt, query))
+      .filter(booking =>
+        !search ||
+        booking.details.toLowerCase().includes(search) ||
+        booking.student?.name.toLowerCase().includes(search) ||
+        booking.student?.email.toLowerCase().includes(search)
+      )
+      .sort(newestFirst)
+
+    const { items, pagination } = paginate(bookings, query)
+    return ok({ bookings: items, pagination })
+  }
+
+  const updateBookingStatus: Handler = (ctx, params) => {
+    const booking = findBooking(Number(params.id))
+    if (!booking) return fail(404, 'Booking not found')
+
+    const { status } = readBody<{ status: BookingStatus }>(ctx)
+    const statuses: BookingStatus[] = ['PENDING', 'PROCESSING', 'SUCCESS', 'FAILED', 'COMPLETED']
+    if (!status || !statuses.includes(status)) {
+      return fail(400, 'Invalid booking status', undefined, [{ field: 'status', message: 'Invalid booking status' }])
+    }
+
+    booking.status = status
+    booking.updatedAt = new Date().toISOString()
+    return ok({ booking: withRelations(booking) }, 'Booking status updated')
+  }
+
+  const getStats = () => {
+    const now = new Date()
+    const paidBookings = db.bookings.filter(booking => PAID_STATUSES.includes(booking.status))
+    return {
+      totalBookings: db.bookings.length,
+      pendingBookings: db.bookings.filter(booking => booking.status === 'PENDING' || booking.status === 'PROCESSING').length,
+      successBookings: paidBookings.length,
+      completedBookings: db.bookings.filter(booking => booking.status === 'COMPLETED').length,
+      totalRevenue: paidBookings.reduce((total, booking) => total + booking.amount, 0),
+      monthlyBookings: db.bookings.filter(booking => {
+        const created = new Date(booking.createdAt)
+        return created.getMonth() === now.getMonth() && created.getFullYear() === now.getFullYear()
+      }).length,
+    }
+  }
+
+  // Sum of `getValue` over items created in the current and previous period window
+  const periodTotals = <T extends { createdAt: string }>(items: T[], period: string | null, getValue: (item: T) => number) => {
+    const windowMs = (PERIOD_DAYS[period || 'monthly'] ?? 30) * DAY_MS
+    const now = Date.now()
+    let current = 0
+    let previous = 0
+    items.forEach(item => {
+      const age = now - new Date(item.createdAt).getTime()
+      if (age < windowMs) current += getValue(item)
+      else if (age < 2 * windowMs) previous += getValue(item)
+    })
+    return { current, previous }
+  }
+
+  // Payments
+
+  const listPayments: Handler = (ctx) => {
+    const query = readQuery(ctx)
+    const status = query.get('status')
+    const payments = db.payments
+      .filter(payment => !status || payment.status === status)
+      .filter(payment => inDateRange(payment.createdAt, query))
+      .sort(newestFirst)
+
+    const { items, pagination } = paginate(payments, query)
+    return ok({ payments: items, pagination })
+  }
+
+  const revenueBreakdown = () => {
+    const sumWhere = (status: BookingStatus) =>
+      db.bookings.filter(booking => booking.status === status).reduce((total, booking) => total + booking.amount, 0)
+    return {
+      totalRevenue: getStats().totalRevenue,
+      revenueBreakdown: {
+        success: sumWhere('SUCCESS'),
+        pending: sumWhere('PENDING'),
+        processing: sumWhere('PROCESSING'),
+        failed: sumWhere('FAILED'),
+        completed: sumWhere('COMPLETED'),
+      },
+    }
+  }
+
+  return [
+    // Auth
+    route('POST', '/auth/register', (ctx) => {
+      const { name, email, phone, password } = readBody<{ name: string; email: string; phone: string; password: string }>(ctx)
+      if (!db.settings.registrationEnabled) return fail(403, 'Registration is currently disabled')
+
+      const details: ApiFieldError[] = []
+      if (!name || name.trim().length < 2) details.push({ field: 'name', message: 'Name must be at least 2 characters' })
+      if (!email || !/^\S+@\S+\.\S+$/.test(email)) details.push({ field: 'email', message: 'Invalid email address' })
+      if (!phone || !/^\d{10,13}$/.test(phone.replace(/\D/g, ''))) details.push({ field: 'phone', message: 'Enter a valid phone number' })
+      if (!password || password.length < 6) details.push({ field: 'password', message: 'Password must be at least 6 characters' })
+      if (details.length) return fail(400, 'Validation failed', undefined, details)
+
+      if (db.students.some(item => item.email === email!.toLowerCase())) {
+        return fail(409, 'An account with this email already exists')
+      }
+
+      const timestamp = new Date().toISOString()
+      const created: MockStudent = {
+        id: nextStudentId++,
+        name: name!.trim(),
+        email: email!.toLowerCase(),
+        phone: phone!,
+        emailVerified: false,
+        phoneVerified: false,
+        password: password!,
+        isActive: true,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      }
+      db.students.push(created)
+      return ok({ student: publicStudent(created), token: startSession('student', created.id) }, 'Registration successful')
+    }),
+
+    route('POST', '/auth/login', (ctx) => {
+      const { email, password } = readBody<{ email: string; password: string }>(ctx)
+      const account = db.students.find(item => item.email === email?.toLowerCase())
+      if (!account || account.password !== password) {
+        return fail(401, 'Invalid email or password', 'INVALID_CREDENTIALS')
+      }
+      if (!account.isActive) return fail(403, 'This account has been deactivated')
+      return ok({ student: publicStudent(account), token: startSession('student', account.id) }, 'Login successful')
+    }),
+
+    route('POST', '/auth/refresh', asStudent((ctx, _params, studentId) =>
+      ok({ token: issueToken('student', studentId, readToken(ctx)!.sid) })
+    )),
+
+    route('GET', '/auth/me', asStudent((_ctx, _params, studentId) =>
+      ok({ student: publicStudent(findStudent(studentId)!) })
+    )),
+    route('PATCH', '/auth/me', updateProfile),
+    route('POST', '/auth/change-password', changePassword),
+    route('GET', '/auth/me/notifications', asStudent((_ctx, _params, studentId) =>
+      ok({ preferences: notificationPreferencesOf(studentId) })
+    )),
+    route('PUT', '/auth/me/notifications', updateNotificationPreferences),
+    route('GET', '/auth/sessions', listSessions),
+    route('POST', '/auth/sessions/revoke-others', revokeOtherSessions),
+    route('DELETE', '/auth/sessions/:id', revokeSession),
+
+    route('POST', '/auth/forgot-password', studentReset.forgot),
+    route('POST', '/auth/reset-password/validate', studentReset.validate),
+    route('POST', '/auth/reset-password', studentReset.reset),
+
+    route('POST', '/auth/verify/email/send', sendEmailVerification),
+    route('POST', '/auth/verify/email', verifyEmail),
+    route('POST', '/auth/verify/phone/send', sendPhoneVerification),
+    route('POST', '/auth/verify/phone', verifyPhone),
+
+    route('POST', '/auth/admin/login', adminLogin),
+    route('POST', '/admin/login', adminLogin),
+
+    route('POST', '/auth/admin/refresh', asAdmin((ctx) =>
+      ok({ token: issueToken('admin', readToken(ctx)!.sub, readToken(ctx)!.sid) })
+    )),
+
+    route('POST', '/auth/admin/forgot-password', adminReset.forgot),
+    route('POST', '/auth/admin/reset-password/validate', adminReset.validate),
+    route('POST', '/auth/admin/reset-password', adminReset.reset),
+
+    // Categories
+    route('GET', '/categories', () => ok({ categories: db.categories })),
+
+    // Student bookings
+    route('POST', '/bookings', asStudent((ctx, _params, studentId) => {
+      const { consultantType, details, amount } = readBody<{ consultantType: ConsultantType; details: string; amount: number }>(ctx)
+
+      const errors: ApiFieldError[] = []
+      if (!db.categories.some(category => category.type === consultantType)) {
+        errors.push({ field: 'consultantType', message: 'Unknown consultant type' })
+      }
+      if (!details || details.trim().length < 10) {
+        errors.push({ field: 'details', message: 'Please provide a brief description of your query' })
+      }
+      if (amount !== MOCK_BOOKING_AMOUNT) {
+        errors.push({ field: 'amount', message: `Amount must be ${MOCK_BOOKING_AMOUNT} paise` })
+      }
+      if (errors.length) return fail(400, 'Validation failed', undefined, errors)
+
+      const timestamp = new Date().toISOString()
+      const booking: Booking = {
+        id: nextBookingId++,
+        studentId,
+        consultantType: consultantType!,
+        details: details!.trim(),
+        amount: MOCK_BOOKING_AMOUNT,
+        currency: 'INR',
+        status: 'PENDING',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      }
+      db.bookings.push(booking)
+      return ok({ booking }, 'Booking created')
+    })),
+
+    route('GET', '/bookings/me', asStudent((ctx, _params, studentId) => {
+      const bookings = db.bookings
+        .filter(booking => booking.studentId === studentId)
+        .map(withRelations)
+        .sort(newestFirst)
+      const { items, pagination } = paginate(bookings, readQuery(ctx))
+      return ok({ bookings: items, pagination })
+    })),
+
+    route('GET', '/bookings/:id', asStudent((_ctx, params, studentId) => {
+      const booking = findBooking(Number(params.id))
+      if (!booking || booking.studentId !== studentId) return fail(404, 'Booking not found')
+      return ok({ booking: withRelations(booking) })
+    })),
+
+    // Payments
+    route('POST', '/payments/create', asStudent((ctx, _params, studentId) => {
+      const { bookingId } = readBody<{ bookingId: number }>(ctx)
+      const booking = bookingId ? findBooking(bookingId) : undefined
+      if (!booking || booking.studentId !== studentId) return fail(404, 'Booking not found')
+      if (PAID_STATUSES.includes(booking.status)) return fail(409, 'This booking has already been paid')
+
+      booking.razorpayOrderId = `order_mock_${booking.id}_${Date.now()}`
+      booking.updatedAt = new Date().toISOString()
+      return ok({
+        orderId: booking.razorpayOrderId,
+        amount: booking.amount,
+        currency: booking.currency,
+        keyId: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID || 'rzp_test_mock',
+      })
+    })),
+
+    route('POST', '/payments/verify', asStudent((ctx, _params, studentId) => {
+      const body = readBody<{
+        razorpay_payment_id: string
+        razorpay_order_id: string
+        razorpay_signature: string
+        bookingId: number
+      }>(ctx)
+      const booking = body.bookingId ? findBooking(body.bookingId) : undefined
+      if (!booking || booking.studentId !== studentId) return fail(404, 'Booking not found')
+
+      const existing = db.payments.find(payment => payment.razorpayPaymentId === body.razorpay_payment_id)
+      if (existing) return ok({ payment: existing, booking: withRelations(booking) }, 'Payment already verified')
+
+      // Accepts the signatures produced by the fake checkout (fake-razorpay.ts)
+      if (
+        !body.razorpay_payment_id ||
+        !body.razorpay_signature ||
+        !booking.razorpayOrderId ||
+        body.razorpay_order_id !== booking.razorpayOrderId ||
+        body.razorpay_signature !== fakeRazorpaySignature(booking.razorpayOrderId, body.razorpay_payment_id)
+      ) {
+        booking.status = 'FAILED'
+        booking.updatedAt = new Date().toISOString()
+        return fail(400, 'Payment verification failed', 'PAYMENT_FAILED')
+      }
+
+      const timestamp = new Date().toISOString()
+      const payment: Payment = {
+        id: nextPaymentId++,
+        bookingId: booking.id,
+        razorpayPaymentId: body.razorpay_payment_id,
+        razorpayOrderId: booking.razorpayOrderId!,
+        razorpaySignature: body.razorpay_signature,
+        amount: booking.amount,
+        currency: booking.currency,
+        status: 'SUCCESS',
+        createdAt: timestamp,
+      }
+      db.payments.push(payment)
+      booking.status = 'SUCCESS'
+      booking.updatedAt = timestamp
+      return ok({ payment, booking: withRelations(booking) }, 'Payment verified')
+    })),
+
+    // Admin bookings ('export' must come before ':id')
+    route('GET', '/admin/bookings/export', asAdmin((ctx) => {
+      const rows = [...db.bookings].sort(newestFirst).map(withRelations).map(booking => [
+        booking.id,
+        booking.student?.name ?? '',
+        booking.student?.email ?? '',
+        booking.consultantType,
+        booking.status,
+        (booking.amount / 100).toFixed(2),
+        booking.createdAt,
+      ])
+      const csv = [['ID', 'Student', 'Email', 'Consultant Type', 'Status', 'Amount (INR)', 'Created At'], ...rows]
+        .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+        .join('\n')
+      return file(ctx, csv, 'text/csv', `bookings-${today()}.csv`)
+    }, 'bookings:export')),
+    route('GET', '/admin/bookings', asAdmin(listAdminBookings, 'bookings:view')),
+    route('GET', '/admin/bookings/:id', asAdmin((_ctx, params) => {
+      const booking = findBooking(Number(params.id))
+      return booking ? ok({ booking: withRelations(booking) }) : fail(404, 'Booking not found')
+    }, 'bookings:view')),
+    route('PATCH', '/admin/bookings/:id/status', asAdmin(updateBookingStatus, 'bookings:update')),
+    route('PUT', '/admin/bookings/:id/status', asAdmin(updateBookingStatus, 'bookings:update')),
+    route('DELETE', '/admin/bookings/:id', asAdmin((_ctx, params) => {
+      const booking = findBooking(Number(params.id))
+      if (!booking) return fail(404, 'Booking not found')
+      db.bookings = db.bookings.filter(item => item.id !== booking.id)
+      db.payments = db.payments.filter(payment => payment.bookingId !== booking.id)
+      return ok({ message: 'Booking deleted' })
+    }, 'bookings:delete')),
+
+    // Admin stats and analytics
+    // Open to every admin role, like the summary on the dashboard
+    route('GET', '/admin/dashboard/stats', asAdmin(() => ok(getStats()))),
+
+    route('GET', '/admin/analytics/revenue', asAdmin((ctx) => {
+      const paidBookings = db.bookings.filter(booking => PAID_STATUSES.includes(booking.status))
+      const { current, previous } = periodTotals(paidBookings, readQuery(ctx).get('period'), booking => booking.amount)
+      return ok({
+        totalRevenue: getStats().totalRevenue,
+        periodRevenue: current,
+        growth: growthPercent(current, previous),
+        chartData: dailySeries(paidBookings, booking => booking.createdAt, booking => booking.amount, Date.now())
+          .map(({ date, value }) => ({ date, revenue: value })),
+      })
+    }, 'analytics:view')),
+
+    route('GET', '/admin/analytics/bookings', asAdmin((ctx) => {
+      const { current, previous } = periodTotals(db.bookings, readQuery(ctx).get('period'), () => 1)
+      return ok({
+        totalBookings: db.bookings.length,
+        periodBookings: current,
+        growth: growthPercent(current, previous),
+        chartData: dailySeries(db.bookings, booking => booking.createdAt, () => 1, Date.now())
+          .map(({ date, value }) => ({ date, bookings: value })),
+        categoryBreakdown: db.categories.map(category => {
+          const count = db.bookings.filter(booking => booking.consultantType === category.type).length
+          return {
+            type: category.type,
+            count,
+            percentage: db.bookings.length ? Math.round((count / db.bookings.length) * 100) : 0,
+          }
+        }),
+      })
+    }, 'analytics:view')),
+
+    route('GET', '/admin/analytics/users', asAdmin(() => {
+      const { current, previous } = periodTotals(db.students, 'monthly', () => 1)
+      const activeSince = Date.now() - 30 * DAY_MS
+      const activeUsers = new Set(
+        db.bookings
+          .filter(booking => new Date(booking.createdAt).getTime() >= activeSince)
+          .map(booking => booking.studentId)
+      )
+      return ok({
+        totalUsers: db.students.length,
+        newUsers: current,
+        activeUsers: activeUsers.size,
+        userGrowth: growthPercent(current, previous),
+        chartData: dailySeries(db.students, item => item.createdAt, () => 1, Date.now())
+          .map(({ date, value }) => ({ date, users: value })),
+      })
+    }, 'analytics:view')),
+
+    // Admin users
+    route('GET', '/admin/users', asAdmin((ctx) => {
+      const query = readQuery(ctx)
+      const search = query.get('search')?.toLowerCase()
+      const sortBy = (query.get('sortBy') || 'createdAt') as 'name' | 'email' | 'createdAt'
+      const direction = query.get('sortOrder') === 'asc' ? 1 : -1
+
+      const users = db.students
+        .filter(item =>
+          !search || item.name.toLowerCase().includes(search) || item.email.toLowerCase().includes(search)
+        )
+        .sort((a, b) => a[sortBy].localeCompare(b[sortBy]) * direction)
+        .map(publicStudent)
+
+      const { items, pagination } = paginate(users, query)
+      return ok({ users: items, pagination })
+    }, 'users:view')),
+
+    route('GET', '/admin/users/:id', asAdmin((_ctx, params) => {
+      const account = findStudent(Number(params.id))
+      if (!account) return fail(404, 'User not found')
+      return ok({
+        user: publicStudent(account),
+        bookings: db.bookings.filter(booking => booking.studentId === account.id).map(withRelations).sort(newestFirst),
+      })
+    }, 'users:view')),
+
+    route('PATCH', '/admin/users/:id', asAdmin((ctx, params) => {
+      const account = findStudent(Number(params.id))
+      if (!account) return fail(404, 'User not found')
+
+      const updates = readBody<{ name: string; email: string; phone: string; isActive: boolean }>(ctx)
+      const email = updates.email?.toLowerCase()
+      if (email && db.students.some(item => item.email === email && item.id !== account.id)) {
+        return fail(409, 'An account with this email already exists')
+      }
+
+      Object.assign(account, {
+        ...(updates.name !== undefined && { name: updates.name }),
+        ...(email !== undefined && { email }),
+        ...(updates.phone !== undefined && { phone: updates.phone }),
+        ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+        updatedAt: new Date().toISOString(),
+      })
+      return ok({ user: publicStudent(account) }, 'User updated')
+    }, 'users:update')),
+
+    route('DELETE', '/admin/users/:id', asAdmin((_ctx, params) => {
+      const account = findStudent(Number(params.id))
+      if (!account) return fail(404, 'User not found')
+
+      const bookingIds = new Set(db.bookings.filter(booking => booking.studentId === account.id).map(booking => booking.id))
+      db.students = db.students.filter(item => item.id !== account.id)
+      db.bookings = db.bookings.filter(booking => !bookingIds.has(booking.id))
+      db.payments = db.payments.filter(payment => !bookingIds.has(payment.bookingId))
+      return ok({ message: 'User deleted' })
+    }, 'users:delete')),
+
+    route('POST', '/admin/users/:id/notify', asAdmin((ctx, params) => {
+      if (!findStudent(Number(params.id))) return fail(404, 'User not found')
+      const { title, message } = readBody<{ title: string; message: string }>(ctx)
+      if (!title || !message) return fail(400, 'Title and message are required')
+      return ok({ message: 'Notification sent' })
+    }, 'users:notify')),
+
+    route('GET', '/admin/students', asAdmin(() => ok({ students: db.students.map(publicStudent) }), 'users:view')),
+
+    // Admin payments
+    route('GET', '/admin/payments', asAdmin(listPayments, 'payments:view')),
+
+    route('GET', '/admin/payments/:id', asAdmin((_ctx, params) => {
+      const payment = db.payments.find(item => item.id === Number(params.id))
+      const booking = payment && findBooking(payment.bookingId)
+      if (!payment || !booking) return fail(404, 'Payment not found')
+      return ok({ payment, booking: withRelations(booking) })
+    }, 'payments:view')),
+
+    route('POST', '/admin/payments/:id/refund', asAdmin((ctx, params) => {
+      const payment = db.payments.find(item => item.id === Number(params.id))
+      if (!payment) return fail(404, 'Payment not found')
+      if (payment.status !== 'SUCCESS') return fail(409, 'Only successful payments can be refunded')
+
+      const { reason } = readBody<{ reason: string }>(ctx)
+      if (!reason?.trim()) return fail(400, 'A refund reason is required')
+
+      // The payment and booking enums have no refunded state; the backend marks both failed
+      payment.status = 'FAILED'
+      const booking = findBooking(payment.bookingId)
+      if (booking) {
+        booking.status = 'FAILED'
+        booking.updatedAt = new Date().toISOString()
+      }
+      return ok({ message: 'Refund initiated', refundId: `rfnd_mock_${payment.id}` })
+    }, 'payments:refund')),
+
+    route('GET', '/admin/revenue/stats', asAdmin(() => {
+      const { current, previous } = periodTotals(
+        db.bookings.filter(booking => PAID_STATUSES.includes(booking.status)),
+        'monthly',
+        booking => booking.amount
+      )
+      return ok({ totalRevenue: getStats().totalRevenue, monthlyRevenue: current, growth: growthPercent(current, previous) })
+    }, 'analytics:view')),
+    route('GET', '/admin/revenue/breakdown', asAdmin(() => ok(revenueBreakdown()), 'analytics:view')),
+
+    // Settings and backup
+    route('GET', '/admin/settings', asAdmin(() => ok(db.settings), 'settings:view')),
+
+    route('PUT', '/admin/settings', asAdmin((ctx) => {
+      db.settings = { ...db.settings, ...readBody<MockDatabase['settings']>(ctx) }
+      return ok({ message: 'Settings updated' })
+    }, 'settings:update')),
+
+    route('GET', '/admin/backup', asAdmin(
+      (ctx) => file(ctx, JSON.stringify(db, null, 2), 'application/json', `carrierhub-backup-${today()}.json`),
+      'backup:download'
+    )),
+
+    route('POST', '/admin/restore', asAdmin(async (ctx) => {
+      const file = ctx.init.body instanceof FormData ? ctx.init.body.get('backup') : null
+      if (!(file instanceof Blob)) return fail(400, 'A backup file is required')
+
+      let backup: MockDatabase
+      try {
+        backup = JSON.parse(await file.text()) as MockDatabase
+      } catch {
+        return fail(400, 'Backup file is not valid JSON')
+      }
+      const collections = [backup.students, backup.admins, backup.categories, backup.bookings, backup.payments]
+      if (!collections.every(Array.isArray) || !backup.settings) {
+        return fail(400, 'Backup file is missing required data')
+      }
+
+      Object.assign(db, backup)
+      nextStudentId = Math.max(0, ...db.students.map(item => item.id)) + 1
+      nextBookingId = Math.max(0, ...db.bookings.map(item => item.id)) + 1
+      nextPaymentId = Math.max(0, ...db.payments.map(item => item.id)) + 1
+      return ok({ message: 'Backup restored' })
+    }, 'backup:restore')),
+
+    route('GET', '/admin/health', asAdmin(() => ok({ status: 'ok' }))),
+  ]
+}
+
+/**
+ * Answers every request from the mock routes. Unknown endpoints fail with
+ * NOT_FOUND instead of falling through to the network. POSTs that carry an
+ * Idempotency-Key replay the first response, like the real backend.
+ */
+export function createMockMiddleware(db: MockDatabase = createMockDatabase()): ApiMiddleware {
+  const routes = mockMiddleware(createMockRoutes(db))
+  const idempotentResponses = new Map<string, ApiResponse<unknown>>()
+
+  return async (ctx) => {
+    await sleep(MOCK_LATENCY_MS)
+
+    const key = ctx.headers['Idempotency-Key'] || ctx.headers['idempotency-key']
+    const replay = key && idempotentResponses.get(`${ctx.method} ${ctx.endpoint} ${key}`)
+    if (replay) return replay
+
+    const result = await routes(ctx, async () =>
+      createApiFailure('NOT_FOUND', `No mock route for ${ctx.method} ${ctx.endpoint}`, { status: 404 })
+    )
+    if (key && result.success) {
+      idempotentResponses.set(`${ctx.method} ${ctx.endpoint} ${key}`, result)
+    }
+    return result
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Mock Backend Fixtures
+ * Seed data for the in-process mock backend (NEXT_PUBLIC_API_MOCK=true)
+ */
+
+import type { Booking, BookingStatus, Category, ConsultantType, Payment, Student } from './api'
+import type { AdminRole, NotificationPreferences } from './api-contract'
+import type { SessionScope } from './auth-utils'
+
+export interface MockStudent extends Student {
+  password: string
+  isActive: boolean
+}
+
+export interface MockAdmin {
+  id: number
+  name: string
+  email: string
+  password: string
+  role: AdminRole
+  createdAt: string
+}
+
+// A signed-in device; tokens carry its id so it can be listed and revoked
+export interface MockSession {
+  id: string
+  scope: SessionScope
+  accountId: number
+  userAgent?: string
+  ipAddress?: string
+  createdAt: string
+  lastActiveAt: string
+  revoked: boolean
+}
+
+export interface MockSettings {
+  siteName: string
+  siteDescription: string
+  contactEmail: string
+  contactPhone: string
+  socialLinks: Record<string, string>
+  maintenanceMode: boolean
+  registrationEnabled: boolean
+}
+
+export interface MockDatabase {
+  students: MockStudent[]
+  admins: MockAdmin[]
+  categories: Category[]
+  bookings: Booking[]
+  payments: Payment[]
+  sessions: MockSession[]
+  // By student id; students without an entry have the defaults
+  notificationPreferences: Record<number, NotificationPreferences>
+  settings: MockSettings
+}
+
+// Every consultation costs ₹10, in paise, like the real backend
+export const MOCK_BOOKING_AMOUNT = 1000
+
+// Demo logins shown in the README
+export const MOCK_STUDENT_PASSWORD = 'password123'
+export const MOCK_ADMIN_EMAIL = 'admin@carrierhub.dev'
+export const MOCK_ADMIN_PASSWORD = 'admin123'
+// One more admin per restricted role, sharing MOCK_ADMIN_PASSWORD
+export const MOCK_ROLE_ADMINS: { name: string; email: string; role: AdminRole }[] = [
+  { name: 'Operations Team', email: 'ops@carrierhub.dev', role: 'operations' },
+  { name: 'Finance Team', email: 'finance@carrierhub.dev', role: 'finance' },
+  { name: 'Support Desk', email: 'support@carrierhub.dev', role: 'support' },
+]
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  bookingUpdates: true,
+  sessionReminders: true,
+  smsReminders: false,
+  productNews: false,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysAgo = (days: number, now: number) => new Date(now - days * DAY_MS).toISOString()
+
+const categories: Category[] = [
+  { type: 'CAREER_GUIDANCE', title: 'Career Guidance', description: 'Get personalized career advice and planning' },
+  { type: 'COLLEGE_COURSE', title: 'College Course Selection', description: 'Choose the right college and course' },
+  { type: 'EXAM_PREPARATION', title: 'Exam Preparation', description: 'Expert guidance for competitive exams' },
+  { type: 'STUDY_ABROAD', title: 'Study Abroad', description: 'Complete guidance for international education' },
+  { type: 'SKILL_MENTORSHIP', title: 'Skill Mentorship', description: 'Develop industry-relevant skills' },
+  { type: 'JOB_PLACEMENT', title: 'Job Placement', description: 'Get help with job search and placement' },
+  { type: 'GOVERNMENT_JOBS', title: 'Government Jobs', description: 'Guidance for government job preparation' },
+  { type: 'PERSONAL_GROWTH', title: 'Personal Growth', description: 'Enhance your personality and soft skills' },
+  { type: 'ALTERNATIVE_CAREERS', title: 'Alternative Careers', description: 'Explore unconventional career paths' },
+]
+
+// [studentId, consultantType, status, days ago, details]
+const bookingSeeds: [number, ConsultantType, BookingStatus, number, string][] = [
+  [1, 'CAREER_GUIDANCE', 'COMPLETED', 42, 'Final year B.Tech student unsure between product and service companies.'],
+  [1, 'STUDY_ABROAD', 'SUCCESS', 6, 'Planning an MS in Germany for Fall intake, need help shortlisting universities.'],
+  [1, 'EXAM_PREPARATION', 'PENDING', 1, 'Preparing for GATE CSE, want a 6 month study plan.'],
+  [2, 'COLLEGE_COURSE', 'COMPLETED', 35, 'Confused between BBA and B.Com (Hons) after class 12.'],
+  [2, 'SKILL_MENTORSHIP', 'PROCESSING', 3, 'Want to move into data analytics, looking for a learning roadmap.'],
+  [3, 'JOB_PLACEMENT', 'FAILED', 12, 'Need help preparing for campus placements next month.'],
+  [3, 'JOB_PLACEMENT', 'SUCCESS', 11, 'Need help preparing for campus placements next month.'],
+  [3, 'GOVERNMENT_JOBS', 'PENDING', 0, 'Preparing for SSC CGL, want guidance on the tier 2 syllabus.'],
+  [4, 'PERSONAL_GROWTH', 'COMPLETED', 20, 'Working on public speaking and confidence in interviews.'],
+  [4, 'ALTERNATIVE_CAREERS', 'SUCCESS', 2, 'Exploring a career in UX design after a mechanical engineering degree.'],
+]
+
+/**
+ * Builds a fresh copy of the seed data, with dates relative to `now`
+ */
+export function createMockDatabase(now: number = Date.now()): MockDatabase {
+  const students: MockStudent[] = [
+    { id: 1, name: 'Aarav Sharma', email: 'aarav@example.com', phone: '9876543210', phoneVerified: true },
+    { id: 2, name: 'Priya Nair', email: 'priya@example.com', phone: '9823456710', phoneVerified: true },
+    { id: 3, name: 'Rohan Verma', email: 'rohan@example.com', phone: '9812345670', phoneVerified: true },
+    // Unverified phone, to try the verification step before checkout
+    { id: 4, name: 'Sneha Iyer', email: 'sneha@example.com', phone: '9801234567', phoneVerified: false },
+  ].map((student, index) => ({
+    emailVerified: true,
+    ...student,
+    password: MOCK_STUDENT_PASSWORD,
+    isActive: true,
+    createdAt: daysAgo(60 - index * 5, now),
+    updatedAt: daysAgo(60 - index * 5, now),
+  }))
+
+  const bookings: Booking[] = []
+  const payments: Payment[] = []
+
+  bookingSeeds.forEach(([studentId, consultantType, status, age, details], index) => {
+    const id = index + 1
+    const createdAt = daysAgo(age, now)
+    const booking: Booking = {
+      id,
+      studentId,
+      consultantType,
+      details,
+      amount: MOCK_BOOKING_AMOUNT,
+      currency: 'INR',
+      status,
+      createdAt,
+      updatedAt: createdAt,
+    }
+
+    if (status !== 'PENDING') {
+      booking.razorpayOrderId = `order_mock_${id}`
+    }
+    if (status === 'SUCCESS' || status === 'COMPLETED') {
+      const payment: Payment = {
+        id: payments.length + 1,
+        bookingId: id,
+        razorpayPaymentId: `pay_mock_${id}`,
+        razorpayOrderId: `order_mock_${id}`,
+        razorpaySignature: `sig_mock_${id}`,
+        amount: MOCK_BOOKING_AMOUNT,
+        currency: 'INR',
+        status: 'SUCCESS',
+        createdAt,
+      }
+      payments.push(payment)
+    }
+    bookings.push(booking)
+  })
+
+  return {
+    students,
+    admins: [
+      {
+        id: 1,
+        name: 'CarrierHub Admin',
+        email: MOCK_ADMIN_EMAIL,
+        password: MOCK_ADMIN_PASSWORD,
+        role: 'super-admin',
+        createdAt: daysAgo(90, now),
+      },
+      ...MOCK_ROLE_ADMINS.map((admin, index) => ({
+        id: index + 2,
+        ...admin,
+        password: MOCK_ADMIN_PASSWORD,
+        createdAt: daysAgo(60, now),
+      })),
+    ],
+    categories,
+    bookings,
+    payments,
+    // Other devices of the demo student, to try signing them out from settings
+    sessions: [
+      {
+        id: 'mock-session-android',
+        scope: 'student',
+        accountId: 1,
+        userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Mobile Safari/537.36',
+        ipAddress: '49.36.112.18',
+        createdAt: daysAgo(9, now),
+        lastActiveAt: daysAgo(1, now),
+        revoked: false,
+      },
+      {
+        id: 'mock-session-windows',
+        scope: 'student',
+        accountId: 1,
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:127.0) Gecko/20100101 Firefox/127.0',
+        ipAddress: '103.21.58.4',
+        createdAt: daysAgo(30, now),
+        lastActiveAt: daysAgo(4, now),
+        revoked: false,
+      },
+    ],
+    notificationPreferences: {
+      1: { ...DEFAULT_NOTIFICATION_PREFERENCES, smsReminders: true },
+    },
+    settings: {
+      siteName: 'CarrierHub',
+      siteDescription: 'Career consultation for students',
+      contactEmail: 'support@carrierhub.dev',
+      contactPhone: '+91 98765 43210',
+      socialLinks: {
+        instagram: 'https://instagram.com/carrierhub',
+        linkedin: 'https://linkedin.com/company/carrierhub',
+      },
+      maintenanceMode: false,
+      registrationEnabled: true,
+    },
+  }
+}
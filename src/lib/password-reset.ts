@@ -0,0 +1,41 @@
+/**
+ * Password Reset Flows
+ * Routes and API calls of the forgot/reset password pages, per audience
+ */
+
+import { apiClient, type ApiResponse } from './api'
+import type { Message, PasswordReset, PasswordResetMethod, PasswordResetProof, PasswordResetValidation } from './api-contract'
+import type { SessionScope } from './auth-utils'
+
+export interface PasswordResetFlow {
+  loginPath: string
+  forgotPath: string
+  resetPath: string
+  request: (body: { email: string; method?: PasswordResetMethod }) => Promise<ApiResponse<Message>>
+  validate: (proof: PasswordResetProof) => Promise<ApiResponse<PasswordResetValidation>>
+  reset: (reset: PasswordReset) => Promise<ApiResponse<Message>>
+}
+
+export const PASSWORD_RESET_FLOWS: Record<SessionScope, PasswordResetFlow> = {
+  student: {
+    loginPath: '/login',
+    forgotPath: '/forgot-password',
+    resetPath: '/reset-password',
+    request: body => apiClient.requestPasswordReset(body),
+    validate: proof => apiClient.validatePasswordReset(proof),
+    reset: reset => apiClient.resetPassword(reset),
+  },
+  admin: {
+    loginPath: '/admin/login',
+    forgotPath: '/admin/forgot-password',
+    resetPath: '/admin/reset-password',
+    request: body => apiClient.requestAdminPasswordReset(body),
+    validate: proof => apiClient.validateAdminPasswordReset(proof),
+    reset: reset => apiClient.resetAdminPassword(reset),
+  },
+}
+
+// Length of the emailed one-time code
+export const RESET_CODE_LENGTH = 6
+// How long links and codes stay valid, as the backend enforces it
+export const RESET_LIFETIME_MINUTES = 30
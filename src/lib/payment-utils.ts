@@ -3,6 +3,9 @@
  * Centralizes all payment-related types and helper functions
  */
 
+import type { PaymentOrder } from "./api-contract";
+import { installFakeRazorpay, isFakeRazorpayEnabled } from "./fake-razorpay";
+
 // Razorpay TypeScript declarations
 declare global {
   interface Window {
@@ -43,16 +46,41 @@ export interface RazorpayResponse {
   razorpay_signature: string;
 }
 
+export type RazorpayErrorCode =
+  | "BAD_REQUEST_ERROR"
+  | "GATEWAY_ERROR"
+  | "NETWORK_ERROR"
+  | "SERVER_ERROR"
+  | "INVALID_REQUEST_ERROR"
+  | "AUTHENTICATION_ERROR";
+
+// Payload of the checkout's "payment.failed" event
+export interface RazorpayFailureResponse {
+  error: {
+    code: RazorpayErrorCode;
+    description: string;
+    source: string;
+    step: string;
+    reason: string;
+    metadata: {
+      order_id: string;
+      payment_id: string;
+    };
+  };
+}
+
 export interface RazorpayInstance {
   open: () => void;
   close?: () => void;
+  on: (event: "payment.failed", handler: (response: RazorpayFailureResponse) => void) => void;
 }
 
-export interface PaymentOrder {
-  orderId: string;
-  amount: number;
-  currency: string;
-  keyId: string;
+// Returned by POST /payments/create (see contract/openapi.json)
+export type { PaymentOrder } from "./api-contract";
+
+// Development and tests use a local stand-in instead of checkout.js
+if (typeof window !== "undefined" && isFakeRazorpayEnabled()) {
+  installFakeRazorpay();
 }
 
 /**
@@ -168,6 +196,7 @@ export const createRazorpayOptions = (
 export const PaymentErrors = {
   RAZORPAY_NOT_LOADED: "Payment system not loaded. Please refresh the page and try again.",
   INVALID_CONFIGURATION: "Payment system is not configured. Please contact support.",
+  CONTACT_NOT_VERIFIED: "Please verify your email and phone number before booking.",
   PAYMENT_CANCELLED: "Payment cancelled. You can retry payment from your dashboard.",
   PAYMENT_FAILED: "Payment failed. Please try again or contact support if amount was deducted.",
   NETWORK_ERROR: "Network error. Please check your connection and try again.",
@@ -183,7 +212,7 @@ export const PaymentErrors = {
  * Maps Razorpay error codes to user-friendly messages
  */
 export const mapRazorpayError = (errorCode: string): string => {
-  const errorMap: Record<string, string> = {
+  const errorMap: Record<RazorpayErrorCode, string> = {
     'BAD_REQUEST_ERROR': PaymentErrors.PAYMENT_FAILED,
     'GATEWAY_ERROR': PaymentErrors.NETWORK_ERROR,
     'NETWORK_ERROR': PaymentErrors.NETWORK_ERROR,
@@ -192,7 +221,7 @@ export const mapRazorpayError = (errorCode: string): string => {
     'AUTHENTICATION_ERROR': PaymentErrors.INVALID_CONFIGURATION,
   };
 
-  return errorMap[errorCode] || PaymentErrors.PAYMENT_FAILED;
+  return errorMap[errorCode as RazorpayErrorCode] || PaymentErrors.PAYMENT_FAILED;
 };
 
 /**
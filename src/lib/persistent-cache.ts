@@ -0,0 +1,208 @@
+// Persistent cache tier backed by IndexedDB, for entries that should survive reloads
+
+import { logger } from './logger'
+
+// Bump when the shape of cached API data changes. Deploys can also set
+// NEXT_PUBLIC_CACHE_VERSION (e.g. to the commit SHA) so each release starts cold.
+export const CACHE_SCHEMA_VERSION = 1
+const CACHE_VERSION = `${CACHE_SCHEMA_VERSION}:${process.env.NEXT_PUBLIC_CACHE_VERSION || ''}`
+
+const DB_NAME = 'carrierhub-cache'
+const DB_VERSION = 1 // Object store layout, not the data version above
+const ENTRIES_STORE = 'entries'
+const META_STORE = 'meta'
+
+// Data that is the same for everyone on the device, e.g. categories
+export const SHARED_PARTITION = 'shared'
+
+// Least recently used entries are evicted beyond these limits
+const MAX_ENTRIES = 200
+const MAX_BYTES = 2 * 1024 * 1024 // 2 MB of serialized data
+
+const DEFAULT_TTL = 5 * 60 * 1000 // 5 minutes
+
+interface PersistedEntry {
+  id: string // `${partition}|${key}`
+  key: string
+  partition: string
+  data: unknown
+  timestamp: number
+  ttl: number
+  tags: string[]
+  size: number
+  lastAccess: number
+}
+
+export interface PersistedItem<T> {
+  data: T
+  timestamp: number
+  ttl: number
+  tags: string[]
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+const entryId = (key: string, partition: string) => `${partition}|${key}`
+
+class PersistentCache {
+  private db: Promise<IDBDatabase | null> | null = null
+
+  // Resolves to null where IndexedDB is missing or blocked (SSR, private mode)
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = this.openDatabase().catch(error => {
+        logger.warn('Persistent cache unavailable', error)
+        return null
+      })
+    }
+    return this.db
+  }
+
+  private async openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return null
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE)
+      }
+    }
+    const db = await promisify(request)
+
+    // Entries written by another release may not match the current data shapes
+    const tx = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite')
+    const meta = tx.objectStore(META_STORE)
+    const version = await promisify(meta.get('version'))
+    if (version !== CACHE_VERSION) {
+      tx.objectStore(ENTRIES_STORE).clear()
+      meta.put(CACHE_VERSION, 'version')
+      logger.info(`Persistent cache reset for version ${CACHE_VERSION}`)
+    }
+    await transactionDone(tx)
+    return db
+  }
+
+  async get<T>(key: string, partition: string = SHARED_PARTITION): Promise<PersistedItem<T> | null> {
+    try {
+      const db = await this.open()
+      if (!db) return null
+
+      const tx = db.transaction(ENTRIES_STORE, 'readwrite')
+      const store = tx.objectStore(ENTRIES_STORE)
+      const entry = await promisify<PersistedEntry | undefined>(store.get(entryId(key, partition)))
+      if (!entry) return null
+
+      const now = Date.now()
+      if (now - entry.timestamp > entry.ttl) {
+        store.delete(entry.id)
+        await transactionDone(tx)
+        return null
+      }
+
+      store.put({ ...entry, lastAccess: now })
+      await transactionDone(tx)
+      return { data: entry.data as T, timestamp: entry.timestamp, ttl: entry.ttl, tags: entry.tags }
+    } catch (error) {
+      logger.warn(`Persistent cache read failed: ${key}`, error)
+      return null
+    }
+  }
+
+  async set<T>(
+    key: string,
+    data: T,
+    options: { ttl?: number; tags?: string[]; partition?: string } = {}
+  ): Promise<void> {
+    const { ttl = DEFAULT_TTL, tags = [], partition = SHARED_PARTITION } = options
+    try {
+      const db = await this.open()
+      if (!db) return
+
+      const size = JSON.stringify(data)?.length ?? 0
+      if (size > MAX_BYTES) return
+
+      const now = Date.now()
+      const tx = db.transaction(ENTRIES_STORE, 'readwrite')
+      const store = tx.objectStore(ENTRIES_STORE)
+      const entry: PersistedEntry = {
+        id: entryId(key, partition),
+        key,
+        partition,
+        data,
+        timestamp: now,
+        ttl,
+        tags,
+        size,
+        lastAccess: now,
+      }
+      store.put(entry)
+
+      // Evict the least recently used entries until both limits hold again
+      const entries = await promisify<PersistedEntry[]>(store.getAll())
+      let count = entries.length
+      let bytes = entries.reduce((total, item) => total + item.size, 0)
+      entries
+        .filter(item => item.id !== entry.id)
+        .sort((a, b) => a.lastAccess - b.lastAccess)
+        .forEach(item => {
+          if (count <= MAX_ENTRIES && bytes <= MAX_BYTES) return
+          store.delete(item.id)
+          count--
+          bytes -= item.size
+        })
+
+      await transactionDone(tx)
+    } catch (error) {
+      logger.warn(`Persistent cache write failed: ${key}`, error)
+    }
+  }
+
+  // Removes every entry, in any partition, carrying one of `tags`
+  async invalidateTags(tags: string[]): Promise<void> {
+    await this.deleteWhere(entry => entry.tags.some(tag => tags.includes(tag)))
+  }
+
+  // Removes everything stored for one user, e.g. on logout
+  async clearPartition(partition: string): Promise<void> {
+    await this.deleteWhere(entry => entry.partition === partition)
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteWhere(() => true)
+  }
+
+  private async deleteWhere(predicate: (entry: PersistedEntry) => boolean): Promise<void> {
+    try {
+      const db = await this.open()
+      if (!db) return
+
+      const tx = db.transaction(ENTRIES_STORE, 'readwrite')
+      const store = tx.objectStore(ENTRIES_STORE)
+      const entries = await promisify<PersistedEntry[]>(store.getAll())
+      entries.filter(predicate).forEach(entry => store.delete(entry.id))
+      await transactionDone(tx)
+    } catch (error) {
+      logger.warn('Persistent cache delete failed', error)
+    }
+  }
+}
+
+// Singleton instance
+export const persistentCache = new PersistentCache()
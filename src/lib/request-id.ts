@@ -0,0 +1,33 @@
+// Correlation ids sent with every API call so a user's error can be matched to backend logs
+
+import { generateIdempotencyKey } from './utils'
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+let lastRequestId: string | null = null
+
+export function generateRequestId(): string {
+  return generateIdempotencyKey()
+}
+
+// Remembered for screens that fail outside an API call, e.g. the ErrorBoundary fallback
+export function recordRequestId(requestId: string): void {
+  lastRequestId = requestId
+}
+
+export function getLastRequestId(): string | null {
+  return lastRequestId
+}
+
+/**
+ * Copies a request id for a support conversation; resolves to false when the
+ * clipboard is unavailable (insecure context, denied permission)
+ */
+export async function copyRequestId(requestId: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(requestId)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Route Access
+ * Which pages need a session. Used by middleware.ts before anything renders,
+ * and by AuthWrapper / AdminWrapper when the session changes in the page.
+ */
+
+import type { SessionScope } from './auth-utils'
+
+export const STUDENT_PROTECTED_ROUTES = ['/dashboard', '/book', '/verify']
+// Signed-in students are sent on from these
+export const STUDENT_AUTH_ROUTES = ['/login', '/signup', '/forgot-password']
+
+export const ADMIN_LOGIN_ROUTE = '/admin/login'
+// Signed-in admins are sent on from these
+export const ADMIN_AUTH_ROUTES = [ADMIN_LOGIN_ROUTE, '/admin/forgot-password']
+// Admin pages reachable without an admin session
+export const ADMIN_PUBLIC_ROUTES = [...ADMIN_AUTH_ROUTES, '/admin/reset-password']
+
+// Whole segments only, so "/verify" does not cover the public "/verify-email"
+export const matchesRoute = (pathname: string, route: string) =>
+  pathname === route || pathname.startsWith(`${route}/`)
+
+// The session a page needs, or null for public pages
+export function requiredSession(pathname: string): SessionScope | null {
+  if (matchesRoute(pathname, '/admin')) {
+    return ADMIN_PUBLIC_ROUTES.includes(pathname) ? null : 'admin'
+  }
+  return STUDENT_PROTECTED_ROUTES.some(route => matchesRoute(pathname, route)) ? 'student' : null
+}
+
+// Where to sign in for `path`; students come back to it through `next`
+export function loginRedirect(scope: SessionScope, path: string): string {
+  if (scope === 'admin') return ADMIN_LOGIN_ROUTE
+  return `/login?next=${encodeURIComponent(path)}`
+}
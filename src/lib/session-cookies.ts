@@ -0,0 +1,69 @@
+/**
+ * Session Cookies
+ * The backend token lives in an httpOnly cookie set by the route handlers in
+ * src/app/api, out of reach of page scripts. Shared by those handlers,
+ * middleware.ts and the browser, so nothing here may touch the DOM or storage.
+ */
+
+import type { SessionScope } from './auth-utils'
+
+export const SESSION_COOKIES: Record<SessionScope, string> = {
+  student: 'ch_session',
+  admin: 'ch_admin_session',
+}
+
+// Route handler that reports, sets (mock backend only) and clears the cookies
+export const SESSION_ROUTE = '/api/session'
+
+// Same-origin proxy to the backend that adds the token from the cookie
+export const API_PROXY_PATH = '/api/backend'
+
+/**
+ * Reads the `exp` claim of a JWT, in milliseconds. Returns null for tokens
+ * that are not JWTs or carry no expiry.
+ */
+export function getTokenExpiry(token: string | null | undefined): number | null {
+  if (!token) return null
+  const [, payload] = token.split('.')
+  if (!payload) return null
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/')
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=')
+    const claims = JSON.parse(atob(padded)) as { exp?: unknown }
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * A cookie token that has not expired. The signature is not checked here;
+ * the backend verifies it on every API call.
+ */
+export function hasLiveSession(token: string | null | undefined, now: number = Date.now()): boolean {
+  if (!token) return false
+  const expiresAt = getTokenExpiry(token)
+  return expiresAt === null || expiresAt > now
+}
+
+/**
+ * What the page gets instead of the token: the JWT header and claims without
+ * the signature, so it can still read `exp` for the expiry warning but the
+ * backend rejects it as a credential. Tokens that are not JWTs become an
+ * opaque marker.
+ */
+export function toSessionHint(token: string): string {
+  const [header, payload] = token.split('.')
+  return payload ? `${header}.${payload}.` : 'session'
+}
+
+export function sessionCookieOptions(token: string) {
+  const expiresAt = getTokenExpiry(token)
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    ...(expiresAt !== null && { expires: new Date(expiresAt) }),
+  }
+}
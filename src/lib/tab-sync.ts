@@ -0,0 +1,76 @@
+// Cross-tab messaging: BroadcastChannel where available, storage events otherwise
+
+import type { SessionScope } from './auth-utils'
+import { logger } from './logger'
+
+export type TabSyncMessage =
+  // Another tab logged in, logged out or refreshed the token of a session
+  | { type: 'session'; scope: SessionScope; event: 'login' | 'logout' | 'refresh' }
+  // Another tab ran a mutation that invalidated these cache tags
+  | { type: 'cache-invalidate'; tags: string[] }
+
+export type TabSyncListener = (message: TabSyncMessage) => void
+
+const CHANNEL_NAME = 'carrierhub-sync'
+// Fallback: the message is written to this key and removed right away, which
+// fires a storage event in every other tab
+const STORAGE_KEY = 'carrierhub-sync'
+
+const listeners = new Set<TabSyncListener>()
+let channel: BroadcastChannel | null = null
+let started = false
+
+function dispatch(message: TabSyncMessage): void {
+  listeners.forEach(listener => {
+    try {
+      listener(message)
+    } catch (error) {
+      logger.error('Tab sync listener failed', error)
+    }
+  })
+}
+
+function onStorage(event: StorageEvent): void {
+  if (event.key !== STORAGE_KEY || !event.newValue) return
+  try {
+    dispatch((JSON.parse(event.newValue) as { message: TabSyncMessage }).message)
+  } catch {
+    // Not a message written by this module
+  }
+}
+
+function start(): void {
+  if (started || typeof window === 'undefined') return
+  started = true
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => dispatch(event.data)
+  } else {
+    window.addEventListener('storage', onStorage)
+  }
+}
+
+// Sends a message to every other open tab of the app; the sending tab does not receive it
+export function broadcastTabMessage(message: TabSyncMessage): void {
+  start()
+  try {
+    if (channel) {
+      channel.postMessage(message)
+    } else if (typeof window !== 'undefined') {
+      // The id makes repeated identical messages still change the stored value
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ id: Date.now() + Math.random(), message }))
+      localStorage.removeItem(STORAGE_KEY)
+    }
+  } catch (error) {
+    logger.warn('Tab sync broadcast failed', error)
+  }
+}
+
+export function onTabMessage(listener: TabSyncListener): () => void {
+  start()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -45,6 +45,16 @@ export function generateId(): string {
   return Math.random().toString(36).substr(2, 9)
 }
 
+/**
+ * Generate a unique key for the Idempotency-Key header of mutating requests
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`
+}
+
 /**
  * Debounce function
  */
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { loginRedirect, requiredSession } from '@/lib/route-access'
+import { hasLiveSession, SESSION_COOKIES } from '@/lib/session-cookies'
+
+/**
+ * Sends requests for protected pages without a live session cookie to the
+ * login page before any HTML is rendered. Students keep the page they asked
+ * for as `next`. The token's signature is left to the backend, which checks
+ * it on every API call; AuthWrapper and AdminWrapper still follow sign-outs
+ * that happen while a page is open.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const scope = requiredSession(pathname)
+  if (!scope) return NextResponse.next()
+
+  const token = request.cookies.get(SESSION_COOKIES[scope])?.value
+  if (hasLiveSession(token)) return NextResponse.next()
+
+  const response = NextResponse.redirect(new URL(loginRedirect(scope, pathname + search), request.url))
+  if (token) response.cookies.delete(SESSION_COOKIES[scope])
+  return response
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/book/:path*', '/verify', '/admin/:path*'],
+}